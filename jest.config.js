@@ -0,0 +1,11 @@
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'jsdom',
+  roots: ['<rootDir>/test'],
+  setupFiles: ['<rootDir>/test/setup.ts'],
+  globals: {
+    'ts-jest': {
+      tsconfig: '<rootDir>/test/tsconfig.json',
+    },
+  },
+};
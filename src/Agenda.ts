@@ -0,0 +1,228 @@
+import { Participant } from './Participant';
+import { Alert, AlertRule, AlertRuleType } from './Alerts';
+import { AgendaItemRecord } from './MeetingRecord';
+import { TranscriptSection } from './ClosedCaptions';
+import { formatTime } from './Utils';
+
+export interface AgendaItemInput {
+  title: string;
+  owner: string;
+  budget: number; // ms
+  personBudget: number; // ms, 0 for no limit
+}
+
+/**
+ * Changes sent by the popup, all optional: an empty change only reads the
+ * agenda.
+ */
+export interface AgendaChange {
+  add?: AgendaItemInput;
+  remove?: number; // index of an item that didn't come up yet
+  next?: boolean; // ends the current item and starts the following one
+}
+
+// Budgets that run over are displayed like the alerts, in a banner.
+const BUDGET_ALERT_RULE: AlertRule = {
+  type: AlertRuleType.AGENDA_BUDGET,
+  threshold: 0,
+  banner: true,
+  notification: false,
+};
+
+/**
+ * Returns how long the item lasted so far.
+ * @param item
+ * @param now reference time for the current item
+ */
+export function getAgendaItemElapsed(
+  item: AgendaItemRecord,
+  now: number = new Date().getTime(),
+): number {
+  if (item.startedAt === null) return 0;
+  return (item.endedAt !== null ? item.endedAt : now) - item.startedAt;
+}
+
+/**
+ * Returns the item being discussed, if any.
+ */
+export function getCurrentAgendaItem(
+  items: AgendaItemRecord[],
+): AgendaItemRecord | null {
+  return (
+    items.find((item) => item.startedAt !== null && item.endedAt === null) ||
+    null
+  );
+}
+
+/**
+ * Returns the items that came up, as sections of the transcript.
+ * @param items
+ */
+export function getAgendaSections(
+  items: AgendaItemRecord[],
+): TranscriptSection[] {
+  return items
+    .filter((item) => item.startedAt !== null)
+    .map((item) => ({
+      title: item.owner ? `${item.title} (${item.owner})` : item.title,
+      startedAt: item.startedAt,
+    }))
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * The agenda of the meeting: items with a time budget, discussed one after
+ * the other. The speaking time is split by item as the meeting goes.
+ */
+export class Agenda {
+  items: AgendaItemRecord[] = [];
+  // Speaking time of each participant at the previous tick, to split the new time by item
+  _lastSpeakingTimes: Map<string, number> = new Map();
+
+  /**
+   * Applies a change sent by the popup.
+   * @param change
+   * @param now
+   */
+  change(change: AgendaChange, now: number = new Date().getTime()): void {
+    if (change.add && change.add.title) {
+      this.add(change.add);
+    }
+    if (typeof change.remove === 'number') {
+      this.remove(change.remove);
+    }
+    if (change.next) {
+      this.next(now);
+    }
+  }
+
+  add(input: AgendaItemInput): void {
+    this.items.push({
+      title: input.title,
+      owner: input.owner || '',
+      budget: Math.max(0, input.budget || 0),
+      personBudget: Math.max(0, input.personBudget || 0),
+      startedAt: null,
+      endedAt: null,
+      speakers: [],
+    });
+  }
+
+  /**
+   * Removes an item, unless it already came up: its stats are kept.
+   * @param index
+   */
+  remove(index: number): void {
+    const item = this.items[index];
+    if (item && item.startedAt === null) {
+      this.items.splice(index, 1);
+    }
+  }
+
+  /**
+   * Moves on to the next item that didn't come up yet.
+   * @param now
+   */
+  next(now: number = new Date().getTime()): void {
+    const current = getCurrentAgendaItem(this.items);
+    if (current) {
+      current.endedAt = now;
+    }
+    const following = this.items.find((item) => item.startedAt === null);
+    if (following) {
+      following.startedAt = now;
+    }
+  }
+
+  /**
+   * Ends the current item, e.g. when the meeting ends.
+   * @param now
+   */
+  finish(now: number = new Date().getTime()): void {
+    const current = getCurrentAgendaItem(this.items);
+    if (current) {
+      current.endedAt = now;
+    }
+  }
+
+  /**
+   * Counts the time spoken since the previous call in the current item.
+   * Called every tick of the meeting, even without a current item, so that
+   * time spoken before an item doesn't count in it.
+   * @param participants
+   */
+  track(participants: Participant[]): void {
+    const current = getCurrentAgendaItem(this.items);
+    participants.forEach((p) => {
+      const id = p.getIdentifier();
+      const speakingTime = p.getTotalSpeakingTime();
+      const spoken = speakingTime - (this._lastSpeakingTimes.get(id) || 0);
+      this._lastSpeakingTimes.set(id, speakingTime);
+      // Splits make the total of a participant drop
+      if (!current || spoken <= 0) return;
+      let speaker = current.speakers.find((s) => s.id === id);
+      if (!speaker) {
+        speaker = { id, name: p.name, speakingTime: 0 };
+        current.speakers.push(speaker);
+      }
+      speaker.name = p.name;
+      speaker.speakingTime += spoken;
+    });
+  }
+
+  /**
+   * Counts from the current speaking times on, e.g. after a merge moved time
+   * already counted from one participant to another.
+   * @param participants
+   */
+  resetTracking(participants: Participant[]): void {
+    participants.forEach((p) =>
+      this._lastSpeakingTimes.set(p.getIdentifier(), p.getTotalSpeakingTime()),
+    );
+  }
+
+  /**
+   * Returns the alerts of the current item: when it runs over its budget,
+   * and for each participant who spoke more than their share of it.
+   * @param now
+   */
+  evaluate(now: number = new Date().getTime()): Alert[] {
+    const index = this.items.findIndex(
+      (item) => item.startedAt !== null && item.endedAt === null,
+    );
+    if (index === -1) return [];
+    const item = this.items[index];
+    const alerts: Alert[] = [];
+    const elapsed = getAgendaItemElapsed(item, now);
+    if (item.budget && elapsed > item.budget) {
+      alerts.push({
+        key: `agenda|${index}`,
+        rule: BUDGET_ALERT_RULE,
+        message: `"${item.title}" is over its ${formatTime(
+          item.budget,
+        )} budget.`,
+      });
+    }
+    if (item.personBudget) {
+      item.speakers
+        .filter((s) => s.speakingTime > item.personBudget)
+        .forEach((s) => {
+          alerts.push({
+            key: `agenda|${index}|${s.id}`,
+            rule: BUDGET_ALERT_RULE,
+            message: `${s.name} has spoken ${formatTime(s.speakingTime)} on "${
+              item.title
+            }", over the ${formatTime(item.personBudget)} each.`,
+          });
+        });
+    }
+    return alerts;
+  }
+
+  toObject(): AgendaItemRecord[] {
+    return this.items.map((item) => ({
+      ...item,
+      speakers: item.speakers.map((s) => ({ ...s })),
+    }));
+  }
+}
@@ -0,0 +1,161 @@
+import { Participant } from './Participant';
+import { formatTime } from './Utils';
+
+export enum AlertRuleType {
+  SPEAKING_SHARE = 'speakingShare', // threshold: % of the total spoken time
+  STRIKE_LENGTH = 'strikeLength', // threshold: minutes of uninterrupted speaking
+  SILENCE = 'silence', // threshold: minutes without speaking
+  AGENDA_BUDGET = 'agendaBudget', // raised by the agenda, see Agenda.ts, rather than configured
+}
+
+export interface AlertRule {
+  type: AlertRuleType;
+  threshold: number;
+  banner: boolean; // Display a banner within the meeting
+  notification: boolean; // Display a Chrome notification
+}
+
+export interface Alert {
+  key: string; // Identifies the rule and participant, to raise each alert once
+  rule: AlertRule;
+  message: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Returns the alerts whose condition is currently met.
+ * @param rules
+ * @param participants
+ * @param shareMinSpokenMs speaking shares are only checked once this much was said
+ * @param now reference time
+ * @param getPausedTime how long the tracking was paused between two times,
+ * which doesn't count as silence
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  participants: Participant[],
+  shareMinSpokenMs: number,
+  now: number = new Date().getTime(),
+  getPausedTime: (from: number, to: number) => number = () => 0,
+): Alert[] {
+  const alerts: Alert[] = [];
+  const totalSpokenTime = participants.reduce(
+    (total, p) => total + p.getTotalSpeakingTime(),
+    0,
+  );
+  rules.forEach((rule, ruleIndex) => {
+    participants.forEach((p) => {
+      let message: string = null;
+      if (rule.type === AlertRuleType.SPEAKING_SHARE) {
+        const share = totalSpokenTime
+          ? (p.getTotalSpeakingTime() / totalSpokenTime) * 100
+          : 0;
+        if (totalSpokenTime >= shareMinSpokenMs && share > rule.threshold) {
+          message = `${p.name} has spoken ${share.toFixed(
+            0,
+          )}% of the time so far.`;
+        }
+      } else if (rule.type === AlertRuleType.STRIKE_LENGTH) {
+        const strikeTime = p.getSpeakingStrikeTime();
+        if (strikeTime > rule.threshold * MINUTE_MS) {
+          message = `${p.name} has been speaking for ${formatTime(
+            strikeTime,
+          )} without interruption.`;
+        }
+      } else if (
+        rule.type === AlertRuleType.SILENCE &&
+        // Not the ones who left, nor the ones only heard in the captions
+        p.node.getMainElement()
+      ) {
+        const silentSince = p.getLastSpokeAt() || p.joinedAt;
+        const silence = now - silentSince - getPausedTime(silentSince, now);
+        if (silence > rule.threshold * MINUTE_MS) {
+          message = `${p.name} hasn't spoken for ${formatTime(silence)}.`;
+        }
+      }
+      if (message) {
+        alerts.push({
+          key: `${ruleIndex}|${p.getIdentifier()}`,
+          rule,
+          message,
+        });
+      }
+    });
+  });
+  return alerts;
+}
+
+/**
+ * Raises the alerts to the facilitator: each alert is raised once, and can
+ * be raised again only after its condition stopped being met.
+ */
+export class AlertManager {
+  activeAlertKeys: Set<string> = new Set();
+  bannerElement: HTMLElement | null = null;
+  bannerTimeout: number = null;
+  bannerDurationMs: number;
+
+  constructor(bannerDurationMs: number) {
+    this.bannerDurationMs = bannerDurationMs;
+  }
+
+  /**
+   * Raises the new alerts among the ones currently met.
+   * @param alerts the alerts whose condition is currently met
+   */
+  update(alerts: Alert[]): void {
+    const currentKeys = new Set(alerts.map((a) => a.key));
+    alerts
+      .filter((a) => !this.activeAlertKeys.has(a.key))
+      .forEach((a) => this.raise(a));
+    this.activeAlertKeys = currentKeys;
+  }
+
+  raise(alert: Alert): void {
+    if (alert.rule.banner) {
+      this.showBanner(alert.message);
+    }
+    if (alert.rule.notification) {
+      // Content scripts can't use chrome.notifications: the background page does.
+      chrome.runtime.sendMessage({
+        notify: { title: 'Speaking time tracker', message: alert.message },
+      });
+    }
+  }
+
+  /**
+   * Displays the message at the top of the meeting window for a while.
+   */
+  showBanner(message: string): void {
+    if (!this.bannerElement || !document.body.contains(this.bannerElement)) {
+      this.bannerElement = document.createElement('div');
+      this.bannerElement.setAttribute(
+        'style',
+        'position: fixed; top: 8px; left: 50%; transform: translateX(-50%); z-index: 10000; ' +
+          'max-width: 480px; padding: 8px 12px; border-radius: 8px; ' +
+          'background: #fef3c7; color: #78350f; font: 14px sans-serif; ' +
+          'box-shadow: 0 2px 6px rgba(0, 0, 0, 0.3); cursor: pointer',
+      );
+      this.bannerElement.title = 'Click to dismiss';
+      this.bannerElement.addEventListener('click', () => this.hideBanner());
+      document.body.appendChild(this.bannerElement);
+    }
+    const line = document.createElement('div');
+    line.textContent = message;
+    this.bannerElement.appendChild(line);
+
+    window.clearTimeout(this.bannerTimeout);
+    this.bannerTimeout = window.setTimeout(
+      () => this.hideBanner(),
+      this.bannerDurationMs,
+    );
+  }
+
+  hideBanner(): void {
+    if (this.bannerElement) {
+      this.bannerElement.remove();
+      this.bannerElement = null;
+    }
+  }
+}
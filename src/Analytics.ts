@@ -0,0 +1,218 @@
+import {
+  getMeetingKey,
+  getTotalSpokenTime,
+  MeetingHistory,
+  MeetingRecord,
+} from './MeetingRecord';
+
+/**
+ * Trends across the meetings of the history, for the dashboard.
+ */
+
+export interface MeetingSummary {
+  meetingKey: string;
+  meetingId: string;
+  startedAt: number;
+  elapsed: number; // ms
+  spokenTime: number; // ms
+  talkRatio: number; // spoken time over meeting length, from 0 to 1
+  balance: number; // how evenly the speaking time was shared, from 0 to 1
+}
+
+export interface SharePoint {
+  meetingKey: string;
+  startedAt: number;
+  share: number; // from 0 to 1
+}
+
+export interface PersonTrend {
+  name: string;
+  meetingCount: number;
+  spokenTime: number; // ms, over all their meetings
+  averageShare: number; // mean of their share in each of their meetings
+  points: SharePoint[]; // oldest first
+}
+
+export interface RecurringMeeting {
+  meetingId: string;
+  meetingCount: number;
+  dominantSpeaker: string; // '' when nobody spoke
+  dominantShare: number; // their share of all the time spoken in these meetings
+  averageBalance: number;
+}
+
+export interface PeriodAverage {
+  periodStart: number;
+  meetingCount: number;
+  averageTalkRatio: number;
+  averageBalance: number;
+}
+
+/**
+ * Returns how evenly the speaking time was shared: 1 when everyone spoke as
+ * much, down to 0 when a single person did all the talking. Computed as the
+ * normalized entropy of the speaking shares.
+ * @param speakingTimes the speaking time of each participant
+ */
+export function getBalanceScore(speakingTimes: number[]): number {
+  const total = speakingTimes.reduce((sum, time) => sum + time, 0);
+  if (speakingTimes.length < 2 || !total) return 0;
+  const entropy = speakingTimes
+    .filter((time) => time > 0)
+    .reduce((sum, time) => {
+      const share = time / total;
+      return sum - share * Math.log(share);
+    }, 0);
+  return entropy / Math.log(speakingTimes.length);
+}
+
+export function summarizeMeeting(record: MeetingRecord): MeetingSummary {
+  const spokenTime = getTotalSpokenTime(record);
+  return {
+    meetingKey: getMeetingKey(record),
+    meetingId: record.meetingId,
+    startedAt: record.startedAt,
+    elapsed: record.elapsed,
+    spokenTime,
+    talkRatio: record.elapsed ? Math.min(1, spokenTime / record.elapsed) : 0,
+    balance: getBalanceScore(
+      record.participants.map((p) => p.totalSpeakingTime),
+    ),
+  };
+}
+
+/**
+ * Returns the meetings started within the range, oldest first.
+ * @param history
+ * @param from earliest start, inclusive
+ * @param meetingId only keep the occurrences of this meeting code, if given
+ */
+export function selectMeetings(
+  history: MeetingHistory,
+  from: number,
+  meetingId?: string,
+): MeetingRecord[] {
+  return Object.keys(history)
+    .map((key) => history[key])
+    .filter(
+      (record) =>
+        record.startedAt >= from &&
+        (!meetingId || record.meetingId === meetingId),
+    )
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Returns the share of speaking time of each person over the meetings,
+ * people who spoke the most first. People are told apart by name.
+ * @param meetings oldest first
+ */
+export function getPersonTrends(meetings: MeetingRecord[]): PersonTrend[] {
+  const trends: { [name: string]: PersonTrend } = {};
+  meetings.forEach((record) => {
+    const spokenTime = getTotalSpokenTime(record);
+    if (!spokenTime) return;
+    record.participants.forEach((p) => {
+      const trend = trends[p.name] || {
+        name: p.name,
+        meetingCount: 0,
+        spokenTime: 0,
+        averageShare: 0,
+        points: [],
+      };
+      trend.meetingCount += 1;
+      trend.spokenTime += p.totalSpeakingTime;
+      trend.points.push({
+        meetingKey: getMeetingKey(record),
+        startedAt: record.startedAt,
+        share: p.totalSpeakingTime / spokenTime,
+      });
+      trends[p.name] = trend;
+    });
+  });
+  return Object.keys(trends)
+    .map((name) => {
+      const trend = trends[name];
+      trend.averageShare =
+        trend.points.reduce((sum, point) => sum + point.share, 0) /
+        trend.points.length;
+      return trend;
+    })
+    .sort((a, b) => b.spokenTime - a.spokenTime);
+}
+
+/**
+ * Returns, for each meeting code used more than once, who spoke the most
+ * over its occurrences. Most frequent meetings first.
+ * @param meetings
+ */
+export function getRecurringMeetings(
+  meetings: MeetingRecord[],
+): RecurringMeeting[] {
+  const byId: { [meetingId: string]: MeetingRecord[] } = {};
+  meetings.forEach((record) => {
+    byId[record.meetingId] = [...(byId[record.meetingId] || []), record];
+  });
+  return Object.keys(byId)
+    .filter((meetingId) => byId[meetingId].length > 1)
+    .map((meetingId) => {
+      const occurrences = byId[meetingId];
+      const [dominant] = getPersonTrends(occurrences);
+      const spokenTime = occurrences.reduce(
+        (sum, record) => sum + getTotalSpokenTime(record),
+        0,
+      );
+      return {
+        meetingId,
+        meetingCount: occurrences.length,
+        dominantSpeaker: dominant ? dominant.name : '',
+        dominantShare:
+          dominant && spokenTime ? dominant.spokenTime / spokenTime : 0,
+        averageBalance:
+          occurrences.reduce(
+            (sum, record) => sum + summarizeMeeting(record).balance,
+            0,
+          ) / occurrences.length,
+      };
+    })
+    .sort((a, b) => b.meetingCount - a.meetingCount);
+}
+
+/**
+ * Returns the first day of the month of the timestamp, at midnight.
+ */
+function getMonthStart(timestamp: number): number {
+  const date = new Date(timestamp);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+/**
+ * Averages the talk ratio and balance of the meetings month by month, to
+ * see whether they improve over a quarter.
+ * @param summaries oldest first
+ */
+export function getMonthlyAverages(
+  summaries: MeetingSummary[],
+): PeriodAverage[] {
+  const periods: PeriodAverage[] = [];
+  summaries.forEach((summary) => {
+    const periodStart = getMonthStart(summary.startedAt);
+    let period = periods.find((p) => p.periodStart === periodStart);
+    if (!period) {
+      period = {
+        periodStart,
+        meetingCount: 0,
+        averageTalkRatio: 0,
+        averageBalance: 0,
+      };
+      periods.push(period);
+    }
+    // Running means
+    period.meetingCount += 1;
+    period.averageTalkRatio +=
+      (summary.talkRatio - period.averageTalkRatio) / period.meetingCount;
+    period.averageBalance +=
+      (summary.balance - period.averageBalance) / period.meetingCount;
+  });
+  return periods.sort((a, b) => a.periodStart - b.periodStart);
+}
@@ -2,15 +2,75 @@ import Logger from './Logger';
 import { getJSControllerDiv } from './ScrapingUtils';
 import { jsControllerCodes } from './constants';
 import { formatTime } from './Utils';
+import { ClosedCaptionEventRecord } from './MeetingRecord';
+import config from './config';
 
-const INTERJECTIONS_TO_SEQUENCE_MIN_RATIO = 5; // How much shorter should be an interjection vs the sequence it interrupts?
-const SHORT_SEQUENCE_MAX_LENGTH_MS = 3000; // Below what duration do we consider an event to be short?
 const BASE_SEQUENCE_PER_WORD_LENGTH_MS = 100; // When a sequence caption is first displayed, how long do we assume it lasted?
 
 function wordsInString(str: string) {
   return (str.match(/ /g) || []).length + 1;
 }
 
+/**
+ * Formats a time relative to the start of the meeting as HH:MM:SS, with the
+ * milliseconds after the separator when given, as subtitle formats expect.
+ * @param ms
+ * @param millisecondsSeparator
+ */
+function formatTimestamp(ms: number, millisecondsSeparator?: string): string {
+  const pad = (n: number, length = 2) => `${n}`.padStart(length, '0');
+  ms = Math.max(0, Math.round(ms));
+  const timestamp = [
+    Math.floor(ms / 3600000),
+    Math.floor(ms / 60000) % 60,
+    Math.floor(ms / 1000) % 60,
+  ]
+    .map((n) => pad(n))
+    .join(':');
+  return millisecondsSeparator === undefined
+    ? timestamp
+    : `${timestamp}${millisecondsSeparator}${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Puts the text on a single line, as a blank line ends a subtitle cue.
+ * @param text
+ */
+function toCueLine(text: string): string {
+  return text.replace(/\s*[\r\n]+\s*/g, ' ');
+}
+
+/**
+ * Makes a section title fit in a NOTE block or a cue: on one line, and
+ * without the "-->" of the cue timings.
+ * @param title
+ */
+function toSectionCueTitle(title: string): string {
+  return toCueLine(title).replace(/-->/g, '->');
+}
+
+/**
+ * Escapes the text of a WebVTT cue, or the name of its voice: "&" and "<"
+ * would start an entity or a tag, and ">" would close the voice's.
+ * @param text
+ */
+function escapeWebVtt(text: string): string {
+  return toCueLine(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * A heading of the transcript, e.g. an agenda item.
+ */
+export interface TranscriptSection {
+  title: string;
+  startedAt: number;
+}
+
+const SECTION_CUE_LENGTH_MS = 3000; // How long the heading of a section is displayed in subtitles
+
 const PUNCTUATION_CHARS = new Set(['.', '!', '?', ',']);
 
 function mergeStrings(mainString, updateString, requiredOverlapLength = 15) {
@@ -93,6 +153,31 @@ class ClosedCaptionEvent {
     this.continuation = false;
   }
 
+  /**
+   * Rebuilds an event from its persisted record.
+   */
+  static fromObject(record: ClosedCaptionEventRecord): ClosedCaptionEvent {
+    const event = new ClosedCaptionEvent(record.when, record.who, record.what);
+    event.when = record.when;
+    event.whenSpokeLast = record.whenSpokeLast;
+    event.howLong = record.howLong;
+    event.interjection = record.interjection;
+    event.continuation = record.continuation;
+    return event;
+  }
+
+  toObject(): ClosedCaptionEventRecord {
+    return {
+      when: this.when,
+      whenSpokeLast: this.whenSpokeLast,
+      who: this.who,
+      what: this.what,
+      howLong: this.howLong,
+      interjection: this.interjection,
+      continuation: this.continuation,
+    };
+  }
+
   /**
    * Complete some CC text based on an update to it, which can be:
    * - a full substitution ("abc", "abcdef") -> "abcdef"
@@ -116,18 +201,54 @@ class ClosedCaptionEvent {
   }
 }
 
+/**
+ * Changes to a transcript: the events from `from` on replace the previous
+ * ones, e.g. new captions, or older ones turned into interjections.
+ */
+export interface CaptionsDelta {
+  from: number;
+  events: ClosedCaptionEventRecord[];
+}
+
+/**
+ * Returns the transcript with the changes applied.
+ * @param events left untouched
+ * @param delta
+ */
+export function applyCaptionsDelta(
+  events: ClosedCaptionEventRecord[],
+  delta: CaptionsDelta,
+): ClosedCaptionEventRecord[] {
+  return [...events.slice(0, delta.from), ...delta.events];
+}
+
 export class ClosedCaptions {
   ccObserver: MutationObserver;
   events: ClosedCaptionEvent[] = [];
   eventsBuffer: ClosedCaptionEvent[] = [];
   ccElement: HTMLElement | null;
+  onSpeakerCaptioned: (who: string) => void;
+  _lastCaption = ''; // who said what last, to notice when it changes
+  _changedFrom: number | null = null; // first event changed since takeChanges
+  revision = 0; // bumped on every change, to tell when to render them again
   _logger: Logger;
 
-  constructor(source?: ClosedCaptions) {
+  /**
+   * @param source the persisted captions to start from
+   * @param onSpeakerCaptioned called whenever the captions of the speaker
+   * being transcribed change, i.e. while they speak
+   */
+  constructor(
+    source?: ClosedCaptionEventRecord[],
+    onSpeakerCaptioned?: (who: string) => void,
+  ) {
     this._logger = new Logger(`ClosedCaptions`);
+    this.onSpeakerCaptioned = onSpeakerCaptioned || null;
     this.ccElement = this.getClosedCaptionsElement();
     if (source) {
-      this.events = source.events;
+      this.events = source.map((record) =>
+        ClosedCaptionEvent.fromObject(record),
+      );
     }
   }
 
@@ -136,6 +257,27 @@ export class ClosedCaptions {
    */
   clear(): void {
     this.events.splice(0, this.events.length);
+    this._markChanged(0);
+  }
+
+  _markChanged(index: number): void {
+    this.revision++;
+    this._changedFrom =
+      this._changedFrom === null ? index : Math.min(this._changedFrom, index);
+  }
+
+  /**
+   * Returns the changes since the previous call, to sync the transcript
+   * without sending all of it, or null if nothing changed.
+   */
+  takeChanges(): CaptionsDelta | null {
+    if (this._changedFrom === null) return null;
+    const from = this._changedFrom;
+    this._changedFrom = null;
+    return {
+      from,
+      events: this.events.slice(from).map((event) => event.toObject()),
+    };
   }
 
   /**
@@ -154,6 +296,7 @@ export class ClosedCaptions {
    */
   _addEvent(event: ClosedCaptionEvent): void {
     this.events.push(event);
+    this._markChanged(this.events.length - 1);
 
     const turnCount = this.events.length;
     if (turnCount >= 3) {
@@ -175,7 +318,7 @@ export class ClosedCaptions {
             interjectionCandidateTurnIndex < turnCount - 2 &&
             turn.howLong >
               (currentTurn.when - turn.whenSpokeLast) *
-                INTERJECTIONS_TO_SEQUENCE_MIN_RATIO
+                config.InterjectionsToSequenceMinRatio
           ) {
             // The turns in between are much shorter: marking them as interjections.
             for (
@@ -185,6 +328,7 @@ export class ClosedCaptions {
             ) {
               this.events[turnIdx].interjection = true;
             }
+            this._markChanged(interjectionCandidateTurnIndex + 1);
             currentTurn.continuation = true;
           } else {
             this._logger.log(
@@ -206,7 +350,7 @@ export class ClosedCaptions {
             // * **Jen2 Chen**: And Appreciate niraj. (1s)
           }
           break;
-        } else if (turn.howLong > SHORT_SEQUENCE_MAX_LENGTH_MS) {
+        } else if (turn.howLong > config.ShortSequenceMaxLengthMs) {
           // We found a turn from a different speaker that was long.
           // What we have aren't interjections.
           this._logger.log(
@@ -232,6 +376,15 @@ export class ClosedCaptions {
     this._addEvent(finalizedEvent);
   }
 
+  /**
+   * Finalizes the captions still displayed, e.g. when the meeting ends.
+   */
+  flush(): void {
+    while (this.eventsBuffer.length) {
+      this._finalizeOldestBufferedEvent();
+    }
+  }
+
   mergeLatestCC(): void {
     const now = new Date().getTime();
 
@@ -283,6 +436,18 @@ export class ClosedCaptions {
         }
       }
     }
+
+    // The last caption displayed is the one being spoken.
+    const latest = newEvents[newEvents.length - 1];
+    const latestCaption = latest ? `${latest.who}|${latest.what}` : '';
+    if (
+      latest &&
+      latestCaption !== this._lastCaption &&
+      this.onSpeakerCaptioned
+    ) {
+      this.onSpeakerCaptioned(latest.who);
+    }
+    this._lastCaption = latestCaption;
   }
 
   startObserver(): void {
@@ -301,17 +466,60 @@ export class ClosedCaptions {
   }
 
   stopObservers(): void {
-    this.ccObserver.disconnect();
+    if (this.ccObserver) this.ccObserver.disconnect();
     // this.pauseSpeaking();
   }
 
-  toMarkdown(): string {
+  toObject(): ClosedCaptionEventRecord[] {
+    return this.events.map((event) => event.toObject());
+  }
+
+  /**
+   * Returns the captions and the sections in the order they came, each
+   * section before the first caption said after it started.
+   * @param sections
+   */
+  _withSections(
+    sections: TranscriptSection[],
+  ): (ClosedCaptionEvent | TranscriptSection)[] {
+    const entries: (ClosedCaptionEvent | TranscriptSection)[] = [];
+    let sectionIndex = 0;
+    this.events.forEach((ccEvent) => {
+      while (
+        sectionIndex < sections.length &&
+        sections[sectionIndex].startedAt <= ccEvent.when
+      ) {
+        entries.push(sections[sectionIndex++]);
+      }
+      entries.push(ccEvent);
+    });
+    return [...entries, ...sections.slice(sectionIndex)];
+  }
+
+  /**
+   * Returns the captions as Markdown, with a heading per section.
+   * @param sections e.g. the agenda items, by start time
+   * @param offsets filled with where the text of each caption starts, to
+   * select one in the transcript
+   */
+  toMarkdown(
+    sections: TranscriptSection[] = [],
+    offsets: number[] = [],
+  ): string {
     let dialogMD = '';
-    for (let i = 0; i < this.events.length; i++) {
-      const ccEvent = this.events[i];
+    let lineStarted = false;
+    for (const entry of this._withSections(sections)) {
+      if (!(entry instanceof ClosedCaptionEvent)) {
+        dialogMD += `${lineStarted ? '\n\n' : ''}### ${entry.title}\n`;
+        lineStarted = false;
+        continue;
+      }
+      const ccEvent = entry;
       if (ccEvent.interjection) {
         // Brief interjection of the main speaker: display text inline in italics
-        dialogMD += `⚡️*${ccEvent.who}: ${ccEvent.what}`;
+        dialogMD += `⚡️*${ccEvent.who}: `;
+        offsets.push(dialogMD.length);
+        dialogMD += ccEvent.what;
         const howLongStr = formatTime(ccEvent.howLong);
         if (howLongStr) {
           dialogMD += ` (${howLongStr})`;
@@ -319,17 +527,88 @@ export class ClosedCaptions {
         dialogMD += '* ';
       } else if (ccEvent.continuation) {
         // Continuation post interjection - don't repeat the speaker name
+        offsets.push(dialogMD.length + 1);
         dialogMD += ` ${ccEvent.what} (${formatTime(ccEvent.howLong)})`;
       } else {
-        if (i > 0) {
+        if (lineStarted) {
           dialogMD += '\n';
         }
-        dialogMD += `**${ccEvent.who}**: ${ccEvent.what} (${formatTime(
-          ccEvent.howLong,
-        )})`;
+        dialogMD += `**${ccEvent.who}**: `;
+        offsets.push(dialogMD.length);
+        dialogMD += `${ccEvent.what} (${formatTime(ccEvent.howLong)})`;
       }
+      lineStarted = true;
     }
     dialogMD += '\n';
     return dialogMD;
   }
+
+  /**
+   * Returns the captions as SRT subtitles, one cue per caption and per
+   * section.
+   * @param startedAt when the meeting started, the subtitles' origin
+   * @param sections
+   */
+  toSrt(startedAt: number, sections: TranscriptSection[] = []): string {
+    return this._withSections(sections)
+      .map((entry, idx) => {
+        const [from, to, text] =
+          entry instanceof ClosedCaptionEvent
+            ? [
+                entry.when,
+                entry.when + entry.howLong,
+                toCueLine(`${entry.who}: ${entry.what}`),
+              ]
+            : [
+                entry.startedAt,
+                entry.startedAt + SECTION_CUE_LENGTH_MS,
+                `[${toSectionCueTitle(entry.title)}]`,
+              ];
+        return (
+          `${idx + 1}\n` +
+          `${formatTimestamp(from - startedAt, ',')} --> ` +
+          `${formatTimestamp(to - startedAt, ',')}\n` +
+          `${text}\n`
+        );
+      })
+      .join('\n');
+  }
+
+  /**
+   * Returns the captions as WebVTT subtitles, with the speakers as voices
+   * and the sections as notes.
+   * @param startedAt when the meeting started, the subtitles' origin
+   * @param sections
+   */
+  toWebVtt(startedAt: number, sections: TranscriptSection[] = []): string {
+    const cues = this._withSections(sections).map((entry) =>
+      entry instanceof ClosedCaptionEvent
+        ? `${formatTimestamp(entry.when - startedAt, '.')} --> ` +
+          `${formatTimestamp(entry.when + entry.howLong - startedAt, '.')}\n` +
+          `<v ${escapeWebVtt(entry.who)}>${escapeWebVtt(entry.what)}\n`
+        : `NOTE ${formatTimestamp(
+            entry.startedAt - startedAt,
+          )} ${toSectionCueTitle(entry.title)}\n`,
+    );
+    return ['WEBVTT\n', ...cues].join('\n');
+  }
+
+  /**
+   * Returns the captions as plain text, one "[HH:MM:SS] Speaker: text" line per caption
+   * and a "== Title ==" line per section.
+   * @param startedAt when the meeting started
+   * @param sections
+   */
+  toPlainText(startedAt: number, sections: TranscriptSection[] = []): string {
+    return this._withSections(sections)
+      .map((entry) =>
+        entry instanceof ClosedCaptionEvent
+          ? `[${formatTimestamp(entry.when - startedAt)}] ${entry.who}: ${
+              entry.what
+            }\n`
+          : `\n== ${entry.title} ==\n`,
+      )
+      .join('')
+      .replace(/^\n/, '');
+  }
 }
@@ -0,0 +1,186 @@
+import MeetingController from './MeetingController';
+import { jsControllerCodes } from './constants';
+import { getJSControllerDiv, HookResolution } from './ScrapingUtils';
+import { getCurrentRegistry } from './SelectorRegistry';
+import { Participant } from './Participant';
+
+export interface HookDiagnostic {
+  name: string;
+  resolution: HookResolution;
+  code: string;
+  detail: string;
+}
+
+export interface ParticipantDiagnostic {
+  name: string;
+  observing: boolean;
+  lastMutationAt: number | null;
+}
+
+export interface DiagnosticsReport {
+  generatedAt: number;
+  extensionVersion: string;
+  registryVersion: number;
+  language: string;
+  meetingId: string;
+  startedAt: number | null;
+  hooks: HookDiagnostic[];
+  participants: ParticipantDiagnostic[];
+}
+
+function checkDiv(
+  name: string,
+  code: string,
+  detailIfMissing = '',
+): HookDiagnostic {
+  const found = !!getJSControllerDiv(code, name, true);
+  return {
+    name,
+    resolution: found ? HookResolution.PRIMARY : HookResolution.MISSING,
+    code,
+    detail: found ? '' : detailIfMissing,
+  };
+}
+
+/**
+ * Checks an element found within each participant box.
+ */
+function checkParticipantsElement(
+  name: string,
+  code: string,
+  participants: Participant[],
+  hasElement: (p: Participant) => boolean,
+): HookDiagnostic {
+  const visible = participants.filter((p) => p.node.getMainElement());
+  const found = visible.filter(hasElement).length;
+  return {
+    name,
+    resolution:
+      found > 0 || !visible.length
+        ? HookResolution.PRIMARY
+        : HookResolution.MISSING,
+    code,
+    detail: `found in ${found}/${visible.length} visible participant boxes`,
+  };
+}
+
+/**
+ * Checks each of the Meet UI elements the extension relies on, and how its
+ * participants are observed.
+ * @param controller
+ */
+export function runDiagnostics(
+  controller: MeetingController,
+): DiagnosticsReport {
+  const participants = controller.participants;
+  const container = controller.findParticipantsContainerBoxNode();
+  const infoPane = controller.findMeetingDetailsInfoPaneNode();
+  const boxesCount = controller.getParticipantsNodes().length;
+
+  const hooks: HookDiagnostic[] = [
+    {
+      name: 'Participant boxes',
+      resolution: boxesCount ? HookResolution.PRIMARY : HookResolution.MISSING,
+      code: 'data-participant-id',
+      detail: `${boxesCount} visible`,
+    },
+    {
+      name: 'Participants container',
+      resolution: container.resolution,
+      code: container.code,
+      detail: '',
+    },
+    checkParticipantsElement(
+      'Microphone box',
+      jsControllerCodes.microphoneBox,
+      participants,
+      (p) => !!p.node.getMicrophoneElement(),
+    ),
+    checkParticipantsElement(
+      'Name box',
+      jsControllerCodes.participantNameBox,
+      participants,
+      (p) => {
+        const nameElements = p.node.getNameElements();
+        return !!nameElements && nameElements.length > 0;
+      },
+    ),
+    checkParticipantsElement(
+      'Profile image',
+      jsControllerCodes.imageProfile,
+      participants,
+      (p) => !!p.node.getImageProfileElement(),
+    ),
+    checkDiv('Clock', jsControllerCodes.timeMeetingBox),
+    {
+      name: 'Meeting details pane',
+      resolution: infoPane.resolution,
+      code: infoPane.code,
+      detail: infoPane.element ? '' : 'open the meeting details to check',
+    },
+    checkDiv(
+      'Closed captions section',
+      jsControllerCodes.closedCaptionsSection,
+      'turn on the captions to check',
+    ),
+  ];
+
+  return {
+    generatedAt: new Date().getTime(),
+    extensionVersion: chrome.runtime.getManifest().version,
+    registryVersion: getCurrentRegistry().version,
+    language: document.documentElement.lang,
+    meetingId: controller.getMeetingId(),
+    startedAt: controller.startedAt || null,
+    hooks,
+    participants: participants.map((p) => ({
+      name: p.name,
+      observing: p.observing,
+      lastMutationAt: p.lastMutationAt,
+    })),
+  };
+}
+
+export function formatAgo(timestamp: number | null, now: number): string {
+  if (timestamp === null) return 'never';
+  return `${Math.round((now - timestamp) / 1000)}s ago`;
+}
+
+/**
+ * Formats the report as text to be pasted in a bug ticket. Unless told
+ * otherwise, the meeting id and participant names are left out.
+ * @param report
+ * @param redact
+ */
+export function formatDiagnosticsReport(
+  report: DiagnosticsReport,
+  redact = true,
+): string {
+  const now = report.generatedAt;
+  const lines = [
+    `Speaking time tracker diagnostics - ${new Date(now).toISOString()}`,
+    `Extension ${report.extensionVersion}, selectors v${report.registryVersion}, language '${report.language}'`,
+    `Meeting ${redact ? '<redacted>' : report.meetingId}: ${
+      report.startedAt
+        ? `tracking since ${formatAgo(report.startedAt, now)}`
+        : 'not started'
+    }`,
+    '',
+    'Hooks:',
+    ...report.hooks.map(
+      (h) =>
+        `- ${h.name} [${h.code}]: ${h.resolution}${
+          h.detail ? ` (${h.detail})` : ''
+        }`,
+    ),
+    '',
+    `Participants (${report.participants.length}):`,
+    ...report.participants.map(
+      (p, idx) =>
+        `- ${redact ? `Participant ${idx + 1}` : p.name}: ${
+          p.observing ? 'observed' : 'not observed'
+        }, last mutation ${formatAgo(p.lastMutationAt, now)}`,
+    ),
+  ];
+  return lines.join('\n');
+}
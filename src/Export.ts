@@ -0,0 +1,156 @@
+import { getTotalSpokenTime, MeetingRecord } from './MeetingRecord';
+import { formatTime } from './Utils';
+import { ClosedCaptions } from './ClosedCaptions';
+import { getAgendaSections } from './Agenda';
+import { toReportHtml } from './Report';
+
+/**
+ * Quotes a CSV value if needed. Text that a spreadsheet would run as a
+ * formula, e.g. a name starting with "=", is prefixed with a quote.
+ */
+function escapeCsvValue(value: string | number): string {
+  let str = `${value}`;
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(str)) {
+    str = `'${str}`;
+  }
+  if (/[",\n\r]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/**
+ * Returns the per-participant totals of the meeting as CSV, one row per participant.
+ * @param record
+ */
+export function toCsv(record: MeetingRecord): string {
+  const totalSpokenTime = getTotalSpokenTime(record);
+  const rows: (string | number)[][] = [
+    ['Name', 'Speaking time', 'Speaking time (ms)', 'Share (%)', 'Turns'],
+  ];
+  record.participants.forEach((p) => {
+    rows.push([
+      p.name,
+      formatTime(p.totalSpeakingTime),
+      p.totalSpeakingTime,
+      totalSpokenTime !== 0
+        ? ((p.totalSpeakingTime / totalSpokenTime) * 100).toFixed(1)
+        : '0.0',
+      p.turnCount,
+    ]);
+  });
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+/**
+ * Returns the full record of the meeting as JSON.
+ * @param record
+ */
+export function toJson(record: MeetingRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+/**
+ * Returns a file name for an export of the meeting, e.g. "abc-defg-hij_2021-11-05_1430.csv".
+ * @param record
+ * @param extension
+ */
+export function getExportFileName(
+  record: MeetingRecord,
+  extension: string,
+): string {
+  const date = new Date(record.startedAt);
+  const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+  const dateStr =
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `_${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `${record.meetingId || 'meeting'}_${dateStr}.${extension}`;
+}
+
+/**
+ * Makes the browser download the given content as a file.
+ * @param fileName
+ * @param content
+ * @param mimeType
+ */
+export function downloadFile(
+  fileName: string,
+  content: string,
+  mimeType: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the per-participant totals of the meeting as a CSV file.
+ */
+export function downloadCsv(record: MeetingRecord): void {
+  downloadFile(getExportFileName(record, 'csv'), toCsv(record), 'text/csv');
+}
+
+/**
+ * Downloads the full record of the meeting as a JSON file.
+ */
+export function downloadJson(record: MeetingRecord): void {
+  downloadFile(
+    getExportFileName(record, 'json'),
+    toJson(record),
+    'application/json',
+  );
+}
+
+/**
+ * Downloads the transcript of the meeting as SRT subtitles.
+ */
+export function downloadSrt(record: MeetingRecord): void {
+  const captions = new ClosedCaptions(record.closedCaptions);
+  downloadFile(
+    getExportFileName(record, 'srt'),
+    captions.toSrt(record.startedAt, getAgendaSections(record.agenda)),
+    'application/x-subrip',
+  );
+}
+
+/**
+ * Downloads the transcript of the meeting as WebVTT subtitles.
+ */
+export function downloadWebVtt(record: MeetingRecord): void {
+  const captions = new ClosedCaptions(record.closedCaptions);
+  downloadFile(
+    getExportFileName(record, 'vtt'),
+    captions.toWebVtt(record.startedAt, getAgendaSections(record.agenda)),
+    'text/vtt',
+  );
+}
+
+/**
+ * Downloads the transcript of the meeting as plain text.
+ */
+export function downloadPlainText(record: MeetingRecord): void {
+  const captions = new ClosedCaptions(record.closedCaptions);
+  downloadFile(
+    getExportFileName(record, 'txt'),
+    captions.toPlainText(record.startedAt, getAgendaSections(record.agenda)),
+    'text/plain',
+  );
+}
+
+/**
+ * Downloads the summary report of the meeting as a standalone HTML page.
+ * @param record
+ * @param title see makeReportBodyHTML
+ */
+export function downloadReport(record: MeetingRecord, title: string): void {
+  downloadFile(
+    getExportFileName(record, 'html'),
+    toReportHtml(record, title),
+    'text/html',
+  );
+}
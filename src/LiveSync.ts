@@ -0,0 +1,146 @@
+import { MeetingRecord } from './MeetingRecord';
+import { applyCaptionsDelta, CaptionsDelta } from './ClosedCaptions';
+import { MeetingInformation, Storage } from './Storage';
+import { TrackingState } from './Segments';
+import config from './config';
+
+export const LIVE_PORT_NAME = 'live'; // see chrome.tabs.connect in the popup
+
+/**
+ * What the content script pushes to the popups connected to it, on each
+ * tick of the meeting.
+ */
+export interface LiveUpdate {
+  meeting: MeetingRecord; // without its transcript, see captions
+  captions: CaptionsDelta | null; // all the transcript on connection, then its changes
+  tracking: TrackingState;
+}
+
+/**
+ * Returns the meeting displayed by the popup once the update is applied.
+ * @param previous null until the first update
+ * @param update
+ */
+export function applyLiveUpdate(
+  previous: MeetingRecord | null,
+  update: LiveUpdate,
+): MeetingRecord {
+  const captions = previous ? previous.closedCaptions : [];
+  return {
+    ...update.meeting,
+    closedCaptions: update.captions
+      ? applyCaptionsDelta(captions, update.captions)
+      : captions,
+  };
+}
+
+/**
+ * Keeps the popups and the storage up to date with the meeting, without
+ * serializing it all every second: the popups connect to the content script
+ * and get the changes of the transcript only, and the meeting is saved every
+ * few seconds, its transcript from the first caption changed only. The
+ * history, which holds every meeting, is written less often.
+ */
+export class LiveSync {
+  ports: chrome.runtime.Port[] = [];
+  _storage: Storage;
+  _persistedAt: number = null;
+  _historySavedAt: number = null;
+  _captionsDirtyFrom: number | null = null; // first caption changed since the last save
+  _persistedCaptionCount = 0;
+
+  /**
+   * @param storage
+   * @param getSnapshot returns all of the meeting for a popup connecting,
+   * or null before it started
+   */
+  constructor(storage: Storage, getSnapshot: () => LiveUpdate | null) {
+    this._storage = storage;
+    chrome.runtime.onConnect.addListener((port) => {
+      if (port.name !== LIVE_PORT_NAME) return;
+      this.ports.push(port);
+      port.onDisconnect.addListener(() => {
+        this.ports = this.ports.filter((p) => p !== port);
+      });
+      const snapshot = getSnapshot();
+      if (snapshot) port.postMessage(snapshot);
+    });
+  }
+
+  /**
+   * Pushes the changes of the meeting to the popups, and saves it if it's
+   * been a while.
+   * @param meetingInfo
+   * @param tracking
+   * @param now
+   */
+  publish(
+    meetingInfo: MeetingInformation,
+    tracking: TrackingState,
+    now: number,
+  ): void {
+    const captions = meetingInfo.closedCaptions.takeChanges();
+    const meeting = meetingInfo.toObject(false);
+    const update: LiveUpdate = { meeting, captions, tracking };
+    this.ports.forEach((port) => port.postMessage(update));
+
+    if (captions) {
+      this._captionsDirtyFrom =
+        this._captionsDirtyFrom === null
+          ? captions.from
+          : Math.min(this._captionsDirtyFrom, captions.from);
+    }
+    if (
+      this._persistedAt === null ||
+      now - this._persistedAt >= config.PersistIntervalMs
+    ) {
+      this._persistLiveMeeting(meetingInfo, meeting, now);
+    }
+    if (
+      this._historySavedAt === null ||
+      now - this._historySavedAt >= config.HistorySaveIntervalMs
+    ) {
+      this._historySavedAt = now;
+      // The background page writes the history, for all the tabs
+      chrome.runtime.sendMessage({ saveHistory: meetingInfo.toObject() });
+    }
+  }
+
+  _persistLiveMeeting(
+    meetingInfo: MeetingInformation,
+    meeting: MeetingRecord,
+    now: number,
+  ): void {
+    this._persistedAt = now;
+    const captionsFrom =
+      this._captionsDirtyFrom === null
+        ? meetingInfo.closedCaptions.events.length
+        : this._captionsDirtyFrom;
+    const closedCaptions = meetingInfo.closedCaptions.toObject();
+    this._storage.saveLiveMeeting(
+      { ...meeting, closedCaptions },
+      captionsFrom,
+      this._persistedCaptionCount,
+    );
+    this._captionsDirtyFrom = null;
+    this._persistedCaptionCount = closedCaptions.length;
+  }
+
+  /**
+   * Pushes and saves everything now, e.g. when the meeting ends. The
+   * history is left to the caller, which sends the record returned.
+   * @param meetingInfo
+   * @param tracking
+   * @returns the full record of the meeting
+   */
+  flush(
+    meetingInfo: MeetingInformation,
+    tracking: TrackingState,
+  ): MeetingRecord {
+    const now = new Date().getTime();
+    this._persistedAt = null;
+    this._historySavedAt = now;
+    this.publish(meetingInfo, tracking, now);
+    return meetingInfo.toObject();
+  }
+}
@@ -1,30 +1,85 @@
 import Logger from './Logger';
-import { jsControllerCodes, meetUiString } from './constants';
+import { jsControllerCodes, jsNames, meetUiString } from './constants';
 import { Participant } from './Participant';
 import { ClosedCaptions } from './ClosedCaptions';
-import { copyToClipboard, formatTime } from './Utils';
-import { getJSControllerDiv } from './ScrapingUtils';
+import {
+  copyToClipboard,
+  escapeHtml,
+  formatPercentage,
+  formatTime,
+} from './Utils';
+import {
+  getJSControllerDiv,
+  HookLookup,
+  HookResolution,
+} from './ScrapingUtils';
 import { MeetingInformation, Storage } from './Storage';
+import { makeStatsTableHTML } from './ParticipantStats';
+import { AlertManager, evaluateAlertRules } from './Alerts';
+import { Overlay } from './Overlay';
+import { Agenda, AgendaChange, getAgendaSections } from './Agenda';
+import { AgendaItemRecord, getMeetingKey } from './MeetingRecord';
+import { MeetingSegments, TrackingChange, TrackingState } from './Segments';
+import { WebhookEvent } from './Webhook';
+import { LiveSync } from './LiveSync';
+import config from './config';
+import { learnSelector } from './SelectorRegistry';
+import {
+  findLocalParticipant,
+  findParticipantByName,
+  findRejoiningParticipant,
+  getCaptionsParticipantId,
+  isLocalUserName,
+} from './ParticipantIdentity';
 // import { info } from 'console';
 
+const LEAVE_CALL_ICON = 'call_end'; // Material icon of the button leaving the call
+
 /**
  * Main object of the extension.
  */
 export default class MeetingController {
   meetingStartedInterval: number;
+  reconciliationInterval: number;
+  summaryInterval: number;
   startedAt: number;
+  endedAt: number = null;
+  participantsObserver: MutationObserver;
+  _gridMissingSince: number = null; // when the participants container disappeared
+  _localParticipantId: string = null; // of the user of this browser, once recognized
   meetingId: string;
   _logger: Logger;
   _storage: Storage;
-  _closedCaptionsDisplayed: string; // cache to avoid refreshing the UI too often
+  _sync: LiveSync;
+  _alerts: AlertManager;
+  _overlay: Overlay;
+  _lastWebhookUpdateAt: number = null;
+  _captionsDisplayed = ''; // revision of the captions and agenda sections displayed, see ClosedCaptions.revision
   participants: Participant[];
   closedCaptions: ClosedCaptions;
+  agenda: Agenda;
+  segments: MeetingSegments;
 
   constructor() {
     this.participants = [];
     this._logger = new Logger('MeetingController');
     this._storage = new Storage();
-    this.closedCaptions = new ClosedCaptions();
+    this._alerts = new AlertManager(config.AlertBannerDurationMs);
+    this._overlay = new Overlay();
+    this.agenda = new Agenda();
+    this.segments = new MeetingSegments();
+    this.closedCaptions = new ClosedCaptions(undefined, (who) =>
+      this.onSpeakerCaptioned(who),
+    );
+    this._sync = new LiveSync(this._storage, () =>
+      this.startedAt
+        ? {
+            meeting: this.getMeetingInformation().toObject(false),
+            captions: { from: 0, events: this.closedCaptions.toObject() },
+            tracking: this.getTrackingState(),
+          }
+        : null,
+    );
 
     this.meetingStartedInterval = window.setInterval(
       function (self: MeetingController) {
@@ -39,7 +94,7 @@ export default class MeetingController {
           clearInterval(self.meetingStartedInterval);
         }
       },
-      1000,
+      config.MeetingStartedCheckIntervalMs,
       this,
     );
   }
@@ -82,16 +137,21 @@ export default class MeetingController {
   }
 
   /**
-   * Returns the main box of the meeting that contains all the participants.
+   * Looks for the main box of the meeting that contains all the participants,
+   * without side effects.
    */
-  getParticipantsContainerBoxNode(): Element {
+  findParticipantsContainerBoxNode(): HookLookup {
     const containerElement = getJSControllerDiv(
       jsControllerCodes.participantsContainerBox,
       'main box of the meeting with all the participants',
       true, // Can be null because of fallback
     );
     if (containerElement) {
-      return containerElement;
+      return {
+        element: containerElement,
+        resolution: HookResolution.PRIMARY,
+        code: jsControllerCodes.participantsContainerBox,
+      };
     }
     // Fall back to be resilient to Google's changes
     const participantBoxes = this.getParticipantsNodes();
@@ -100,30 +160,60 @@ export default class MeetingController {
       while (parentElement !== null) {
         const jscontrollerId = parentElement.getAttribute('jscontroller');
         if (jscontrollerId) {
-          console.warn(
-            `Apparent change in CSS structure. Replace '${jsControllerCodes.participantsContainerBox}' ` +
-              `with '${jscontrollerId}'`,
-          );
-          return parentElement;
+          return {
+            element: parentElement,
+            resolution: HookResolution.FALLBACK,
+            code: jscontrollerId,
+          };
         }
         parentElement = parentElement.parentElement;
       }
     }
-    throw `Can't find meeting's main box.`;
-    return null;
+    return {
+      element: null,
+      resolution: HookResolution.MISSING,
+      code: jsControllerCodes.participantsContainerBox,
+    };
   }
 
   /**
-   * Returns the info pane node accessible by clicking the "i" info button.
+   * Returns the main box of the meeting that contains all the participants.
    */
-  getMeetingDetailsInfoPaneNode(): HTMLElement | null {
+  getParticipantsContainerBoxNode(): Element {
+    const lookup = this.findParticipantsContainerBoxNode();
+    if (lookup.resolution === HookResolution.FALLBACK) {
+      console.warn(
+        `Apparent change in CSS structure. Replacing '${jsControllerCodes.participantsContainerBox}' ` +
+          `with '${lookup.code}'`,
+      );
+      learnSelector(
+        'jsControllerCodes',
+        'participantsContainerBox',
+        lookup.code,
+      );
+    }
+    if (!lookup.element) {
+      throw `Can't find meeting's main box.`;
+    }
+    return lookup.element;
+  }
+
+  /**
+   * Looks for the info pane node accessible by clicking the "i" info button,
+   * without side effects.
+   */
+  findMeetingDetailsInfoPaneNode(): HookLookup {
     const infoPaneNode = getJSControllerDiv(
       jsControllerCodes.meetingDetailsInfoPane,
       'info pane node accessible by clicking the "i" info button',
       true, // Can be null, when the info box is hidden.
     );
     if (infoPaneNode) {
-      return infoPaneNode;
+      return {
+        element: infoPaneNode,
+        resolution: HookResolution.PRIMARY,
+        code: jsControllerCodes.meetingDetailsInfoPane,
+      };
     }
     const fallBackNodes = Array.from(
       document.querySelectorAll('[data-tab-id]'),
@@ -135,14 +225,33 @@ export default class MeetingController {
     if (fallBackNodes.length === 1) {
       const jscontrollerId = fallBackNodes[0].getAttribute('jscontroller');
       if (jscontrollerId) {
-        console.warn(
-          `Apparent change in CSS structure. Replace '${jsControllerCodes.meetingDetailsInfoPane}' ` +
-            `with '${jscontrollerId}'`,
-        );
-        return <HTMLScriptElement>fallBackNodes[0];
+        return {
+          element: fallBackNodes[0],
+          resolution: HookResolution.FALLBACK,
+          code: jscontrollerId,
+        };
       }
     }
-    return null;
+    return {
+      element: null,
+      resolution: HookResolution.MISSING,
+      code: jsControllerCodes.meetingDetailsInfoPane,
+    };
+  }
+
+  /**
+   * Returns the info pane node accessible by clicking the "i" info button.
+   */
+  getMeetingDetailsInfoPaneNode(): HTMLElement | null {
+    const lookup = this.findMeetingDetailsInfoPaneNode();
+    if (lookup.resolution === HookResolution.FALLBACK) {
+      console.warn(
+        `Apparent change in CSS structure. Replacing '${jsControllerCodes.meetingDetailsInfoPane}' ` +
+          `with '${lookup.code}'`,
+      );
+      learnSelector('jsControllerCodes', 'meetingDetailsInfoPane', lookup.code);
+    }
+    return <HTMLElement>lookup.element;
   }
 
   /**
@@ -175,6 +284,9 @@ export default class MeetingController {
       );
       // Make it possible to select the text
       infoPaneExtensionNode.setAttribute('style', 'user-select: text');
+      // The stats are refreshed every second, the captions only when they change.
+      infoPaneExtensionNode.innerHTML =
+        '<div data-time-tracker="stats"></div><div data-time-tracker="captions"></div>';
 
       infoPaneNode.appendChild(infoPaneExtensionNode);
     }
@@ -190,6 +302,15 @@ export default class MeetingController {
   meetingStarted(): void {
     this.startedAt = new Date().getTime();
     this.meetingId = this.getMeetingId();
+    this.segments.start(this.startedAt);
+
+    // Tell the background page which tab this meeting is in, for the popup
+    chrome.runtime.sendMessage({
+      liveMeeting: getMeetingKey({
+        meetingId: this.meetingId,
+        startedAt: this.startedAt,
+      }),
+    });
 
     // observe for new participants
     this.startParticipantsChangeObserver();
@@ -200,16 +321,162 @@ export default class MeetingController {
     // start tracking closed captions
     this.closedCaptions.startObserver();
 
-    setInterval(
+    this.startReconciliation();
+
+    // this sends data to the popup
+    this.startSummaryLogger();
+
+    this.startEndDetection();
+  }
+
+  /**
+   * Ends the meeting when the user leaves the call or closes the page. See
+   * detectMeetingEnd for navigations and the grid disappearing.
+   */
+  startEndDetection(): void {
+    document.addEventListener('click', this._onLeaveClick, true);
+    window.addEventListener('pagehide', this._onPageHide);
+  }
+
+  _onLeaveClick = (event: MouseEvent): void => {
+    const target = <Element>event.target;
+    if (!target.closest) return;
+    if (target.closest(`[jsname="${jsNames.leaveCallButton}"]`)) {
+      this.endMeeting('left the call');
+      return;
+    }
+    // Whatever its jsname, the button shows the "call_end" icon.
+    const button = target.closest('button');
+    if (
+      button &&
+      Array.from(button.querySelectorAll('i')).some(
+        (icon) => icon.textContent.trim() === LEAVE_CALL_ICON,
+      )
+    ) {
+      const code = button.getAttribute('jsname');
+      if (code) {
+        console.warn(
+          `Apparent change in CSS structure. Replacing '${jsNames.leaveCallButton}' ` +
+            `with '${code}'`,
+        );
+        learnSelector('jsNames', 'leaveCallButton', code);
+      }
+      this.endMeeting('left the call');
+    }
+  };
+
+  _onPageHide = (): void => this.endMeeting('page closed');
+
+  /**
+   * Ends the meeting if the page moved on to another meeting, or if the
+   * participants have been gone for a while, e.g. after being removed from
+   * the call.
+   * @param now
+   * @returns whether the meeting ended
+   */
+  detectMeetingEnd(now: number): boolean {
+    if (this.getMeetingId() !== this.meetingId) {
+      this.endMeeting('navigated away');
+    } else if (this.findParticipantsContainerBoxNode().element) {
+      this._gridMissingSince = null;
+    } else if (this._gridMissingSince === null) {
+      this._gridMissingSince = now;
+    } else if (now - this._gridMissingSince >= config.MeetingEndGridMissingMs) {
+      this.endMeeting('participants gone');
+    }
+    return !!this.endedAt;
+  }
+
+  /**
+   * Stops tracking for good: the speaking turns and the captions displayed
+   * are counted, the intervals and observers stopped, and the final record
+   * saved.
+   * @param reason for the logs
+   */
+  endMeeting(reason: string): void {
+    if (!this.isTracking()) return;
+    this._logger.log(`Meeting ended: ${reason}`);
+    const now = new Date().getTime();
+    this.segments.resume(now); // A pause ends with the meeting
+    this.endedAt = now;
+
+    clearInterval(this.meetingStartedInterval);
+    clearInterval(this.reconciliationInterval);
+    clearInterval(this.summaryInterval);
+    document.removeEventListener('click', this._onLeaveClick, true);
+    window.removeEventListener('pagehide', this._onPageHide);
+    if (this.participantsObserver) this.participantsObserver.disconnect();
+
+    this.participants.forEach((p) => {
+      if (p.observing) {
+        p.stopObservers();
+      } else if (p.isSpeaking()) {
+        p.pauseSpeaking(now);
+      }
+    });
+    this.closedCaptions.stopObservers();
+    this.closedCaptions.flush();
+    this.agenda.track(this.participants);
+    this.agenda.finish(now);
+    this._alerts.hideBanner();
+    this._overlay.remove();
+
+    const record = this._sync.flush(
+      this.getMeetingInformation(),
+      this.getTrackingState(),
+    );
+    // The background page saves it to the history, after the saves this page
+    // sent before, and posts it to the webhook.
+    chrome.runtime.sendMessage({ meetingEnded: record });
+  }
+
+  /**
+   * @returns whether the meeting started and didn't end yet
+   */
+  isTracking(): boolean {
+    return !!this.startedAt && !this.endedAt;
+  }
+
+  getMeetingInformation(): MeetingInformation {
+    return new MeetingInformation(
+      this.meetingId,
+      this.startedAt,
+      this.getTotalElapsedTime(),
+      this.participants,
+      this.closedCaptions,
+      this.agenda,
+      this.segments,
+      this.endedAt,
+    );
+  }
+
+  /**
+   * Called when the user changed some settings: the config is already up to
+   * date, but the intervals have to be restarted to use their new period.
+   * @param changedKeys the settings that changed
+   */
+  onSettingsChanged(changedKeys: string[]): void {
+    this._logger.log('Settings changed', changedKeys);
+    this._alerts.bannerDurationMs = config.AlertBannerDurationMs;
+    if (!this.isTracking()) return;
+    if (changedKeys.includes('ReconciliationIntervalMs')) {
+      clearInterval(this.reconciliationInterval);
+      this.startReconciliation();
+    }
+    if (changedKeys.includes('SummaryIntervalMs')) {
+      clearInterval(this.summaryInterval);
+      this.startSummaryLogger();
+    }
+  }
+
+  startReconciliation(): void {
+    this.reconciliationInterval = window.setInterval(
       function reconciliateCurrentBoxesInterval(self: MeetingController) {
         self.loadCurrentParticipantBoxes();
       },
-      5000,
+      config.ReconciliationIntervalMs,
       this,
     );
-
-    // this sends data to the popup
-    this.startSummaryLogger();
   }
 
   loadCurrentParticipantBoxes(): void {
@@ -221,11 +488,15 @@ export default class MeetingController {
   }
 
   startSummaryLogger(): void {
-    setInterval(
+    this.summaryInterval = window.setInterval(
       function (self: MeetingController) {
+        const now = new Date().getTime();
+        if (self.detectMeetingEnd(now)) return;
+
         self.updateMeetingDurationTime();
 
-        const readableParticipants = [];
+        // End the turns of the participants off-grid whose captions stopped.
+        self.participants.forEach((p) => p.endCaptionsTurn(now));
 
         // Identify when the most recent intervention took place, and reset
         // the strike time of folks who stopped speaking earlier.
@@ -241,15 +512,45 @@ export default class MeetingController {
             );
           });
 
+        // Split the speaking time by agenda item.
+        self.agenda.track(self.participants);
+
+        // Let the facilitator know when the speaking time gets unbalanced,
+        // or the agenda runs over its budgets. Not during breaks.
+        self._alerts.update(
+          self.segments.isPaused()
+            ? []
+            : [
+                ...evaluateAlertRules(
+                  config.AlertRules,
+                  self.participants,
+                  config.AlertShareMinSpokenMs,
+                  new Date().getTime(),
+                  (from, to) => self.segments.getPausedTime(from, to),
+                ),
+                ...self.agenda.evaluate(),
+              ],
+        );
+
+        // The widget doesn't rely on the tiles, which may be hidden.
+        if (config.OverlayEnabled) {
+          self._overlay.update(
+            self.participants,
+            self.getTotalElapsedTime(),
+            config.OverlayMaxRows,
+            self.agenda.items,
+          );
+        } else {
+          self._overlay.remove();
+        }
+
         // Update the display of who spoke for how long for each participant.
         const speakingTimeOfAllParticipants = self.getTotalSpokenTime();
         self.participants.forEach((singleParticipant: Participant) => {
-          const percentageOfSpeaking = `${(speakingTimeOfAllParticipants !== 0
-            ? (singleParticipant.getTotalSpeakingTime() /
-                speakingTimeOfAllParticipants) *
-              100
-            : 0
-          ).toFixed(1)}%`;
+          const percentageOfSpeaking = formatPercentage(
+            singleParticipant.getTotalSpeakingTime(),
+            speakingTimeOfAllParticipants,
+          );
 
           const nameElements = singleParticipant.node.getNameElements();
           if (nameElements) {
@@ -269,31 +570,33 @@ export default class MeetingController {
               singleNameElement.innerHTML = nameAndInfoElementHTML;
             });
           }
-
-          // prepare data to be sent to chrome.storage
-          readableParticipants.push([
-            singleParticipant.name,
-            formatTime(singleParticipant.getTotalSpeakingTime()),
-            percentageOfSpeaking,
-            singleParticipant.profileImageUrl,
-            singleParticipant.getTotalSpeakingTime(),
-          ]);
         });
 
         const infoNode = self.getOrCreateTimeTrackerInfoNode();
         if (infoNode) {
-          const dialogMD = self.closedCaptions.toMarkdown();
-          const captionHTML =
-            'Text:<br/>' +
-            `<textarea id="textOfChat" class="scrollabletextbox" readonly="readonly" name="note" rows="8" style="width: 90%; font-size: x-small;">${dialogMD}</textarea><br/>` +
-            '<button id="copyTextOfChat" title="Copy">&nbsp;&#x2398;&nbsp;</button> ' +
-            '<button id="cutTextOfChat" title="Cut">&nbsp;&#x2702;&nbsp;</button> ';
-          if (this._closedCaptionsDisplayed !== captionHTML) {
-            // Avoid refreshing if there's not change
-            if (infoNode) {
-              infoNode.innerHTML = captionHTML;
-            }
-            this._closedCaptionsDisplayed = captionHTML;
+          const participantRecords = self.participants
+            .map((p) => p.toObject())
+            .sort((a, b) => b.totalSpeakingTime - a.totalSpeakingTime);
+          infoNode.querySelector(
+            '[data-time-tracker="stats"]',
+          ).innerHTML = `Speaking turns:<br/>${makeStatsTableHTML(
+            participantRecords,
+            new Date().getTime(),
+          )}<br/>`;
+
+          const sections = getAgendaSections(self.agenda.items);
+          const captionsDisplayed = `${self.closedCaptions.revision}|${sections.length}`;
+          if (self._captionsDisplayed !== captionsDisplayed) {
+            // Long transcripts are only rendered again when they change
+            self._captionsDisplayed = captionsDisplayed;
+            const dialogMD = self.closedCaptions.toMarkdown(sections);
+            infoNode.querySelector('[data-time-tracker="captions"]').innerHTML =
+              'Text:<br/>' +
+              `<textarea id="textOfChat" class="scrollabletextbox" readonly="readonly" name="note" rows="8" style="width: 90%; font-size: x-small;">${escapeHtml(
+                dialogMD,
+              )}</textarea><br/>` +
+              '<button id="copyTextOfChat" title="Copy">&nbsp;&#x2398;&nbsp;</button> ' +
+              '<button id="cutTextOfChat" title="Cut">&nbsp;&#x2702;&nbsp;</button> ';
             document
               .getElementById('copyTextOfChat')
               .addEventListener('click', function () {
@@ -308,28 +611,32 @@ export default class MeetingController {
           }
         }
 
-        readableParticipants.sort((a, b) => {
-          return b[4] - a[4];
-        });
-
-        const meetingInfo = new MeetingInformation(
-          self.meetingId,
-          self.startedAt,
-          self.getTotalElapsedTime(),
-          readableParticipants,
-          self.closedCaptions,
+        self._sync.publish(
+          self.getMeetingInformation(),
+          self.getTrackingState(),
+          now,
         );
 
-        self._storage.set(meetingInfo);
+        // Post the stats to the webhook every now and then, if asked to.
+        const webhookIntervalMs = config.WebhookIntervalMinutes * 60 * 1000;
+        if (
+          config.WebhookUrl &&
+          webhookIntervalMs > 0 &&
+          now - (self._lastWebhookUpdateAt || self.startedAt) >=
+            webhookIntervalMs
+        ) {
+          self._lastWebhookUpdateAt = now;
+          self.sendToWebhook(WebhookEvent.UPDATE);
+        }
       },
-      1000,
+      config.SummaryIntervalMs,
       this,
     );
   }
 
   startParticipantsChangeObserver(): void {
     // observe for participants changes
-    const participantsBoxObserver = new MutationObserver((mutations) => {
+    this.participantsObserver = new MutationObserver((mutations) => {
       this._logger.log('Changes in participant box(es)', mutations);
       mutations.forEach((mut) => {
         mut.addedNodes.forEach(
@@ -344,7 +651,7 @@ export default class MeetingController {
       });
     });
     const participantsContainerNode = this.getParticipantsContainerBoxNode();
-    participantsBoxObserver.observe(participantsContainerNode, {
+    this.participantsObserver.observe(participantsContainerNode, {
       childList: true,
     });
   }
@@ -361,9 +668,21 @@ export default class MeetingController {
 
       if (!participant) {
         this._logger.log('Participant did not exist', initialId);
-        participant = new Participant(initialId);
+        participant = new Participant(initialId, (p) =>
+          this.onParticipantStartedSpeaking(p),
+        );
 
-        if (!participant.isPresentationBox()) {
+        const rejoining = findRejoiningParticipant(
+          this.participants,
+          participant,
+        );
+        if (rejoining) {
+          this._logger.log(`${rejoining.name} rejoined as`, initialId);
+          rejoining.addRejoin(initialId);
+          rejoining.profileImageUrl =
+            rejoining.profileImageUrl || participant.profileImageUrl;
+          participant = rejoining;
+        } else if (!participant.isPresentationBox()) {
           this.participants.push(participant);
           // this._logger.log('Participant added', initialId, participant);
         } else {
@@ -374,10 +693,58 @@ export default class MeetingController {
       }
       // this._logger.log('Participant', participant);
 
+      if (participant.node.initialId !== initialId) {
+        // Another of their boxes: only follow it if we lost the current one.
+        if (participant.observing) return;
+        participant.rebind(initialId);
+      }
+      // Their box is observed again when tracking resumes.
+      if (this.segments.isPaused()) return;
       participant.startObservers();
     }
   }
 
+  /**
+   * Called when a participant starts speaking. Unless they are resuming
+   * their own strike, they interrupt whoever is speaking.
+   * @param speaker
+   */
+  onParticipantStartedSpeaking(speaker: Participant): void {
+    if (speaker.speakingStrikeTime) return;
+    this.participants
+      .filter((p) => p !== speaker && p.isSpeaking())
+      .forEach((p) => p.interruptedBy(speaker));
+  }
+
+  /**
+   * Called when the captions show someone speaking. Their microphone measures
+   * their speaking time while their box is observed; otherwise, e.g. when
+   * they are off-grid in a large call, the captions are used to estimate it.
+   * @param name the speaker's name displayed in the captions
+   */
+  onSpeakerCaptioned(name: string): void {
+    if (!this.isTracking()) return;
+    let participant: Participant;
+    if (isLocalUserName(name, this.getMeetUiStrings().you)) {
+      // Meet captions the user as "You": their own box is always in the
+      // call, so they aren't someone off-grid.
+      participant = this.getLocalParticipant();
+      if (!participant) return;
+    } else {
+      participant = findParticipantByName(this.participants, name);
+    }
+    if (participant && participant.observing) return;
+    if (!participant) {
+      this._logger.log('Participant heard in the captions only', name);
+      participant = new Participant(getCaptionsParticipantId(name), (p) =>
+        this.onParticipantStartedSpeaking(p),
+      );
+      participant.name = name;
+      this.participants.push(participant);
+    }
+    participant.captionsSpoken();
+  }
+
   onParticipantNodeRemoved(node: HTMLElement): void {
     this._logger.log('Node removed', node);
 
@@ -385,8 +752,187 @@ export default class MeetingController {
 
     if (initialId) {
       const participant = this.getParticipantByInitialId(initialId);
-      if (participant) participant.stopObservers();
+      if (
+        participant &&
+        participant.observing &&
+        participant.node.initialId === initialId
+      ) {
+        participant.stopObservers();
+      }
+    }
+  }
+
+  /**
+   * Counts a participant as another one, e.g. when they joined from a
+   * second device. Done by hand from the popup.
+   * @param targetId the id of the participant to keep
+   * @param sourceId the id of the participant merged into the target
+   * @returns whether the merge happened
+   */
+  mergeParticipants(targetId: string, sourceId: string): boolean {
+    const target = this.getParticipantByInitialId(targetId);
+    const source = this.getParticipantByInitialId(sourceId);
+    if (!target || !source || target === source) return false;
+    this._logger.log(`Merging ${source.name} into ${target.name}`);
+    this.agenda.track(this.participants);
+    target.absorb(source);
+    this.participants.splice(this.participants.indexOf(source), 1);
+    this.agenda.resetTracking(this.participants);
+    // Follow the source's box if the target's isn't displayed.
+    this.loadCurrentParticipantBoxes();
+    return true;
+  }
+
+  /**
+   * Tracks again separately a box merged into a participant, automatically
+   * or by hand.
+   * @param participantId the id of the participant
+   * @param initialId the id of the merged box
+   * @returns whether the split happened
+   */
+  splitParticipant(participantId: string, initialId: string): boolean {
+    const participant = this.getParticipantByInitialId(participantId);
+    const merge = participant && participant.split(initialId);
+    if (!merge) return false;
+    this._logger.log(`Splitting ${merge.name} out of ${participant.name}`);
+    const restored = new Participant(merge.initialIds[0], (p) =>
+      this.onParticipantStartedSpeaking(p),
+    );
+    restored.restoreFrom(merge);
+    this.participants.push(restored);
+    this.agenda.resetTracking(this.participants);
+    this.loadCurrentParticipantBoxes();
+    return true;
+  }
+
+  /**
+   * Stops tracking until resumeTracking: the speaking times and captions
+   * aren't recorded, and the meeting clock stops.
+   * @returns whether tracking was running
+   */
+  pauseTracking(): boolean {
+    if (!this.isTracking() || !this.segments.pause(new Date().getTime())) {
+      return false;
+    }
+    this._logger.log('Tracking paused.');
+    this.participants.forEach((p) => {
+      if (p.observing) {
+        p.stopObservers();
+      } else if (p.isSpeaking()) {
+        p.pauseSpeaking();
+      }
+    });
+    this.closedCaptions.stopObservers();
+    return true;
+  }
+
+  /**
+   * @returns whether tracking was paused
+   */
+  resumeTracking(): boolean {
+    if (!this.isTracking() || !this.segments.resume(new Date().getTime()))
+      return false;
+    this._logger.log('Tracking resumed.');
+    this.closedCaptions.startObserver();
+    this.loadCurrentParticipantBoxes();
+    // Their microphone only tells when it changes
+    this.participants
+      .filter((p) => p.observing && p.isParticipantSpeaking())
+      .forEach((p) => p.speaking());
+    return true;
+  }
+
+  /**
+   * Sets the stats of all the participants back to zero, e.g. at the end of
+   * a segment.
+   * @param now
+   */
+  resetParticipantCounters(now: number): void {
+    this.agenda.track(this.participants);
+    this.participants.forEach((p) => p.resetCounters(now));
+    this.agenda.resetTracking(this.participants);
+  }
+
+  /**
+   * Starts over as if the meeting just started: the counters, captions,
+   * segments and pauses are cleared. The agenda items are kept.
+   */
+  resetTracking(): void {
+    if (!this.isTracking()) return;
+    this._logger.log('Tracking reset.');
+    const now = new Date().getTime();
+    this.resetParticipantCounters(now);
+    this.closedCaptions.clear();
+    this.segments.start(now);
+  }
+
+  /**
+   * Ends the current segment of the meeting and starts a new one, whose
+   * stats start from zero.
+   * @param name of the new segment
+   */
+  startSegment(name: string): void {
+    if (!this.isTracking()) return;
+    this._logger.log(`Starting segment ${name}`);
+    const now = new Date().getTime();
+    const participants = this.participants
+      .map((p) => p.toObject())
+      .sort((a, b) => b.totalSpeakingTime - a.totalSpeakingTime);
+    this.segments.startSegment(participants, name, now);
+    this.resetParticipantCounters(now);
+  }
+
+  /**
+   * Applies a change of the tracking sent by the popup.
+   * @param change
+   * @returns the state of the tracking after the change
+   */
+  changeTracking(change: TrackingChange): TrackingState {
+    if (change.pause) this.pauseTracking();
+    if (change.resume) this.resumeTracking();
+    if (change.reset) this.resetTracking();
+    if (typeof change.newSegment === 'string') {
+      this.startSegment(change.newSegment);
     }
+    return this.getTrackingState();
+  }
+
+  getTrackingState(): TrackingState {
+    return {
+      started: this.isTracking(),
+      paused: this.segments.isPaused(),
+      segmentName: this.segments.segmentName,
+      segmentCount: this.segments.closedSegments.length + 1,
+    };
+  }
+
+  /**
+   * Asks the background page to post the stats of the meeting to the
+   * webhook: content scripts can't reach the user's host.
+   * @param event
+   */
+  sendToWebhook(event: WebhookEvent): void {
+    if (!this.startedAt || !config.WebhookUrl) return;
+    chrome.runtime.sendMessage({
+      webhook: { event, meeting: this.getMeetingInformation().toObject() },
+    });
+  }
+
+  /**
+   * Applies a change of the agenda sent by the popup.
+   * @param change
+   * @returns the agenda after the change
+   */
+  changeAgenda(change: AgendaChange): AgendaItemRecord[] {
+    this.agenda.change(change);
+    return this.agenda.toObject();
+  }
+
+  /**
+   * Drops the transcript recorded so far, once the popup cut it.
+   */
+  clearCaptions(): void {
+    this.closedCaptions.clear();
   }
 
   getMeetUiStrings(): any {
@@ -405,17 +951,39 @@ export default class MeetingController {
     return isPresentation;
   }
 
+  /**
+   * Returns the participant of the user of this browser, or null until their
+   * box was recognized.
+   */
+  getLocalParticipant(): Participant | null {
+    let local =
+      this._localParticipantId &&
+      this.getParticipantByInitialId(this._localParticipantId);
+    if (!local) {
+      local = findLocalParticipant(
+        this.participants,
+        this.getMeetUiStrings().you,
+      );
+      if (local) {
+        this._localParticipantId = local.initialId;
+        local.isLocalUser = true;
+      }
+    }
+    return local || null;
+  }
+
   getParticipantByInitialId(initialId: string): Participant {
     return this.participants.find((item) => {
-      return item.getIdentifier() == initialId;
+      return item.hasInitialId(initialId);
     });
   }
 
   /**
-   * Returns the number of milliseconds since the beginning of the meeting.
+   * Returns the number of milliseconds tracked since the beginning of the
+   * meeting, or its last reset, pauses excluded.
    */
   getTotalElapsedTime(): number {
-    return new Date().getTime() - this.startedAt;
+    return this.segments.getElapsed(this.endedAt || new Date().getTime());
   }
 
   /**
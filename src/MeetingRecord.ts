@@ -0,0 +1,114 @@
+import { ParticipantEventEnum } from './ParticipantEvent';
+
+/**
+ * Serializable shapes of what we persist in chrome.storage.
+ * Bump MEETING_RECORD_SCHEMA_VERSION and add a migration in Migrations.ts
+ * whenever one of these interfaces changes.
+ */
+export const MEETING_RECORD_SCHEMA_VERSION = 10;
+
+export interface ParticipantEventRecord {
+  event: ParticipantEventEnum;
+  datetime: number;
+}
+
+export interface ParticipantRejoinRecord {
+  initialId: string; // the data-participant-id of the box that was merged
+  name: string;
+  at: number;
+  manual: boolean; // merged by hand rather than recognized by name and image
+}
+
+export interface ParticipantRecord {
+  id: string; // the data-participant-id of their first box, '' for old records
+  name: string;
+  profileImageUrl: string;
+  totalSpeakingTime: number; // ms
+  estimatedSpeakingTime: number; // ms of the total assigned from the captions, while off-grid
+  turnCount: number;
+  longestTurnTime: number; // ms
+  longestStrikeTime: number; // ms
+  interruptionsMade: number;
+  interruptionsReceived: number;
+  lastSpokeAt: number | null;
+  joinedAt: number | null; // when we first saw them, null for old records
+  rejoins: ParticipantRejoinRecord[]; // the other boxes counted as theirs
+  isLocalUser: boolean; // the user of this browser, whom the captions call "You"
+  events?: ParticipantEventRecord[]; // Only when config.PersistEvents is on
+}
+
+export interface ClosedCaptionEventRecord {
+  when: number;
+  whenSpokeLast: number;
+  who: string;
+  what: string;
+  howLong: number;
+  interjection: boolean;
+  continuation: boolean;
+}
+
+export interface AgendaSpeakerRecord {
+  id: string; // see Participant.getIdentifier
+  name: string;
+  speakingTime: number; // ms spoken during the item
+}
+
+export interface AgendaItemRecord {
+  title: string;
+  owner: string; // '' when nobody in particular leads the item
+  budget: number; // ms
+  personBudget: number; // ms each participant may speak during the item, 0 for no limit
+  startedAt: number | null; // null until the item comes up
+  endedAt: number | null;
+  speakers: AgendaSpeakerRecord[];
+}
+
+export interface PauseRecord {
+  startedAt: number;
+  endedAt: number | null; // null while tracking is paused
+}
+
+export interface MeetingSegmentRecord {
+  name: string;
+  startedAt: number;
+  endedAt: number | null; // null for the ongoing segment
+  elapsed: number; // ms, pauses excluded
+  participants: ParticipantRecord[]; // what was said during the segment only
+}
+
+export interface MeetingRecord {
+  schemaVersion: number;
+  meetingId: string;
+  startedAt: number;
+  endedAt: number | null; // null while the meeting goes on, or if its end wasn't noticed
+  elapsed: number;
+  participants: ParticipantRecord[];
+  closedCaptions: ClosedCaptionEventRecord[];
+  agenda: AgendaItemRecord[];
+  pauses: PauseRecord[];
+  segments: MeetingSegmentRecord[]; // empty unless a new segment was started, the participants above sum them up
+}
+
+export interface MeetingHistory {
+  [meetingKey: string]: MeetingRecord;
+}
+
+/**
+ * Returns the key under which a meeting is saved in the history.
+ */
+export function getMeetingKey(record: {
+  meetingId: string;
+  startedAt: number;
+}): string {
+  return `${record.meetingId}|${record.startedAt}`;
+}
+
+/**
+ * Returns the total number of milliseconds spoken by all the participants.
+ */
+export function getTotalSpokenTime(record: MeetingRecord): number {
+  return record.participants.reduce(
+    (total, participant) => total + participant.totalSpeakingTime,
+    0,
+  );
+}
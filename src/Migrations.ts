@@ -0,0 +1,236 @@
+import {
+  MeetingRecord,
+  MEETING_RECORD_SCHEMA_VERSION,
+  ParticipantEventRecord,
+} from './MeetingRecord';
+import { ParticipantEventEnum } from './ParticipantEvent';
+
+// Migrations handle records of past versions, whose shapes aren't typed
+// anymore: each one only relies on the fields it upgrades.
+interface VersionedParticipant {
+  [field: string]: unknown;
+}
+
+interface VersionedRecord {
+  schemaVersion: number;
+  participants: VersionedParticipant[];
+  [field: string]: unknown;
+}
+
+interface V0Participant {
+  name?: string;
+  profileImageUrl?: string;
+  totalSpeakingTime?: unknown;
+}
+
+interface V0Record {
+  meetingId: string;
+  startedAt: number;
+  elapsed?: number;
+  participants?: (unknown[] | V0Participant)[];
+  closedCaptions?: {
+    events?: {
+      when: number;
+      whenSpokeLast: number;
+      who: string;
+      what: string;
+      howLong: number;
+      interjection?: boolean;
+      continuation?: boolean;
+    }[];
+  };
+}
+
+/**
+ * Records saved before versioning: `participants` holds positional arrays
+ * `[name, formattedTime, percentage, imageUrl, ms]` and `closedCaptions`
+ * is a serialized ClosedCaptions instance.
+ */
+function migrateFromV0(raw: V0Record): VersionedRecord {
+  const participants = (raw.participants || []).map((p) =>
+    Array.isArray(p)
+      ? {
+          name: p[0] || '',
+          profileImageUrl: p[3] || '',
+          totalSpeakingTime: Number(p[4]) || 0,
+        }
+      : {
+          name: p.name || '',
+          profileImageUrl: p.profileImageUrl || '',
+          totalSpeakingTime: Number(p.totalSpeakingTime) || 0,
+        },
+  );
+  const events = (raw.closedCaptions && raw.closedCaptions.events) || [];
+  const closedCaptions = events.map((e) => ({
+    when: e.when,
+    whenSpokeLast: e.whenSpokeLast,
+    who: e.who,
+    what: e.what,
+    howLong: e.howLong,
+    interjection: !!e.interjection,
+    continuation: !!e.continuation,
+  }));
+  return {
+    schemaVersion: 1,
+    meetingId: raw.meetingId,
+    startedAt: raw.startedAt,
+    elapsed: raw.elapsed || 0,
+    participants,
+    closedCaptions,
+  };
+}
+
+/**
+ * Version 2 added the number of turns of each participant.
+ */
+function migrateFromV1(raw: VersionedRecord): VersionedRecord {
+  return {
+    ...raw,
+    schemaVersion: 2,
+    participants: raw.participants.map((p) => ({ ...p, turnCount: 0 })),
+  };
+}
+
+/**
+ * Version 3 added the turn statistics of each participant.
+ */
+function migrateFromV2(raw: VersionedRecord): VersionedRecord {
+  return {
+    ...raw,
+    schemaVersion: 3,
+    participants: raw.participants.map((p) => ({
+      ...p,
+      longestTurnTime: 0,
+      longestStrikeTime: 0,
+      interruptionsMade: 0,
+      interruptionsReceived: 0,
+      lastSpokeAt: null,
+    })),
+  };
+}
+
+/**
+ * Version 4 added the identity of each participant: the id of their box and
+ * the other boxes merged into theirs.
+ */
+function migrateFromV3(raw: VersionedRecord): VersionedRecord {
+  return {
+    ...raw,
+    schemaVersion: 4,
+    participants: raw.participants.map((p) => ({ ...p, id: '', rejoins: [] })),
+  };
+}
+
+/**
+ * Version 5 added the speaking time estimated from the captions.
+ */
+function migrateFromV4(raw: VersionedRecord): VersionedRecord {
+  return {
+    ...raw,
+    schemaVersion: 5,
+    participants: raw.participants.map((p) => ({
+      ...p,
+      estimatedSpeakingTime: 0,
+    })),
+  };
+}
+
+/**
+ * Version 6 added the agenda of the meeting.
+ */
+function migrateFromV5(raw: VersionedRecord): VersionedRecord {
+  return { ...raw, schemaVersion: 6, agenda: [] };
+}
+
+/**
+ * Version 7 added the pauses and segments of the tracking.
+ */
+function migrateFromV6(raw: VersionedRecord): VersionedRecord {
+  return { ...raw, schemaVersion: 7, pauses: [], segments: [] };
+}
+
+/**
+ * Version 8 added the end of the meeting.
+ */
+function migrateFromV7(raw: VersionedRecord): VersionedRecord {
+  return { ...raw, schemaVersion: 8, endedAt: null };
+}
+
+/**
+ * Version 9 added when each participant joined, known from their events if
+ * they were kept.
+ */
+function migrateFromV8(raw: VersionedRecord): VersionedRecord {
+  return {
+    ...raw,
+    schemaVersion: 9,
+    participants: raw.participants.map((p) => {
+      const events = Array.isArray(p.events)
+        ? <ParticipantEventRecord[]>p.events
+        : [];
+      const joined = events.find(
+        (e) => e.event === ParticipantEventEnum.JOINED,
+      );
+      return { ...p, joinedAt: joined ? joined.datetime : null };
+    }),
+  };
+}
+
+/**
+ * Version 10 added which participant is the user of this browser.
+ */
+function migrateFromV9(raw: VersionedRecord): VersionedRecord {
+  return {
+    ...raw,
+    schemaVersion: 10,
+    participants: raw.participants.map((p) => ({ ...p, isLocalUser: false })),
+  };
+}
+
+// Each migration upgrades a record from the version of its key to the next one.
+const migrations: {
+  [fromVersion: number]: (raw: VersionedRecord) => VersionedRecord;
+} = {
+  1: migrateFromV1,
+  2: migrateFromV2,
+  3: migrateFromV3,
+  4: migrateFromV4,
+  5: migrateFromV5,
+  6: migrateFromV6,
+  7: migrateFromV7,
+  8: migrateFromV8,
+  9: migrateFromV9,
+};
+
+/**
+ * Upgrades a record read from the storage to the current schema version.
+ * @param raw the object read from chrome.storage
+ * @returns the upgraded record, or null if it can't be read.
+ */
+export function migrateMeetingRecord(raw: unknown): MeetingRecord | null {
+  if (!raw || typeof raw !== 'object' || !raw['meetingId']) return null;
+
+  let record = raw['schemaVersion']
+    ? <VersionedRecord>raw
+    : migrateFromV0(<V0Record>raw);
+  let version = record.schemaVersion;
+  while (version < MEETING_RECORD_SCHEMA_VERSION) {
+    const migration = migrations[version];
+    if (!migration) return null;
+    record = migration(record);
+    version = record.schemaVersion;
+  }
+  // The last migration returns the shape of the current version
+  return <MeetingRecord>(<unknown>record);
+}
+
+/**
+ * Whether the record needs to go through migrateMeetingRecord.
+ */
+export function needsMigration(raw: unknown): boolean {
+  return (
+    !raw ||
+    typeof raw !== 'object' ||
+    (raw['schemaVersion'] || 0) < MEETING_RECORD_SCHEMA_VERSION
+  );
+}
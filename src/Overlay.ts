@@ -0,0 +1,231 @@
+import { Participant } from './Participant';
+import { escapeHtml, formatPercentage, formatTime } from './Utils';
+import { AgendaItemRecord } from './MeetingRecord';
+import { getAgendaItemElapsed, getCurrentAgendaItem } from './Agenda';
+
+const OVERLAY_STATE_KEY = 'overlay'; // chrome.storage.local, where the user left the widget
+
+interface OverlayState {
+  left: number;
+  top: number;
+  collapsed: boolean;
+}
+
+export interface OverlayRow {
+  name: string;
+  speakingTime: number;
+  share: number; // from 0 to 1
+  speaking: boolean;
+}
+
+/**
+ * Returns the rows of the widget, who spoke the most first. The participants
+ * beyond maxRows are summed up in a last row.
+ * @param participants
+ * @param maxRows at least 2, so that someone is listed next to the others
+ */
+export function getOverlayRows(
+  participants: Participant[],
+  maxRows: number,
+): OverlayRow[] {
+  maxRows = Math.max(maxRows, 2);
+  const total = participants.reduce(
+    (sum, p) => sum + p.getTotalSpeakingTime(),
+    0,
+  );
+  const rows = participants
+    .map((p) => ({
+      name: p.name,
+      speakingTime: p.getTotalSpeakingTime(),
+      share: total ? p.getTotalSpeakingTime() / total : 0,
+      speaking: p.isSpeaking(),
+    }))
+    .sort((a, b) => b.speakingTime - a.speakingTime);
+  if (rows.length <= maxRows) return rows;
+  const others = rows.slice(maxRows - 1);
+  return [
+    ...rows.slice(0, maxRows - 1),
+    {
+      name: `${others.length} others`,
+      speakingTime: others.reduce((sum, r) => sum + r.speakingTime, 0),
+      share: others.reduce((sum, r) => sum + r.share, 0),
+      speaking: others.some((r) => r.speaking),
+    },
+  ];
+}
+
+function makeRowHTML(row: OverlayRow): string {
+  const width = Math.round(row.share * 100);
+  const color = row.speaking ? '#2563eb' : '#93c5fd';
+  return `<div style="margin-top: 4px">
+      <div style="display: flex; justify-content: space-between">
+        <span style="overflow: hidden; white-space: nowrap; text-overflow: ellipsis; max-width: 140px">${escapeHtml(
+          row.name,
+        )}</span>
+        <span>${formatTime(row.speakingTime) || '0s'}</span>
+      </div>
+      <div style="height: 6px; border-radius: 3px; background: #e5e7eb">
+        <div style="height: 6px; border-radius: 3px; width: ${width}%; background: ${color}"></div>
+      </div>
+    </div>`;
+}
+
+/**
+ * Floating widget over the Meet page with the live speaking shares, the
+ * current speaker, the meeting clock and the current agenda item. It
+ * doesn't depend on the tiles, so it keeps working in any layout and while
+ * someone presents. It can be dragged by its header and collapsed.
+ */
+export class Overlay {
+  element: HTMLElement | null = null;
+  state: OverlayState = { left: 16, top: 80, collapsed: false };
+  _dragOffset: { x: number; y: number } | null = null;
+
+  constructor() {
+    chrome.storage.local.get([OVERLAY_STATE_KEY], (result) => {
+      this.state = { ...this.state, ...result[OVERLAY_STATE_KEY] };
+      this.applyState();
+    });
+  }
+
+  /**
+   * Refreshes the widget, creating it if needed.
+   * @param participants
+   * @param elapsed ms since the meeting started
+   * @param maxRows participants listed, the others are summed up
+   * @param agenda the current item, if any, is displayed with its budget
+   */
+  update(
+    participants: Participant[],
+    elapsed: number,
+    maxRows: number,
+    agenda: AgendaItemRecord[] = [],
+  ): void {
+    if (!this.element || !document.body.contains(this.element)) {
+      this.create();
+    }
+    this.element.querySelector(
+      '[data-overlay="clock"]',
+    ).textContent = formatTime(elapsed);
+
+    const item = getCurrentAgendaItem(agenda);
+    const agendaElement = <HTMLElement>(
+      this.element.querySelector('[data-overlay="agenda"]')
+    );
+    agendaElement.style.display = item ? 'block' : 'none';
+    if (item) {
+      const itemElapsed = getAgendaItemElapsed(item);
+      agendaElement.style.color =
+        item.budget && itemElapsed > item.budget ? '#dc2626' : '#4b5563';
+      agendaElement.textContent = `${item.title}: ${
+        formatTime(itemElapsed) || '0s'
+      }${item.budget ? ` / ${formatTime(item.budget)}` : ''}`;
+    }
+
+    const speaker = participants
+      .filter((p) => p.isSpeaking())
+      .sort((a, b) => b.getSpeakingStrikeTime() - a.getSpeakingStrikeTime())[0];
+    this.element.querySelector('[data-overlay="speaker"]').innerHTML = speaker
+      ? `&#128483; ${escapeHtml(speaker.name)} ${formatTime(
+          speaker.getSpeakingStrikeTime(),
+        )}`
+      : 'Nobody is speaking';
+
+    const rows = getOverlayRows(participants, maxRows);
+    this.element.querySelector('[data-overlay="rows"]').innerHTML = rows.length
+      ? rows.map(makeRowHTML).join('')
+      : 'Nobody spoke yet';
+    this.element.title = rows
+      .map((r) => `${r.name}: ${formatPercentage(r.share, 1)}`)
+      .join('\n');
+  }
+
+  remove(): void {
+    if (this.element) {
+      this.element.remove();
+      this.element = null;
+    }
+  }
+
+  create(): void {
+    this.element = document.createElement('div');
+    this.element.setAttribute(
+      'style',
+      'position: fixed; z-index: 10000; width: 200px; padding: 6px 8px; border-radius: 8px; ' +
+        'background: rgba(255, 255, 255, 0.95); color: #1f2937; font: 12px sans-serif; ' +
+        'box-shadow: 0 2px 6px rgba(0, 0, 0, 0.3); user-select: none',
+    );
+    this.element.innerHTML = `<div data-overlay="header" style="display: flex; justify-content: space-between; cursor: move">
+        <b>Speaking time</b>
+        <span>
+          <span data-overlay="clock"></span>
+          <span data-overlay="toggle" style="cursor: pointer; margin-left: 4px" title="Collapse or expand"></span>
+        </span>
+      </div>
+      <div data-overlay="body">
+        <div data-overlay="agenda" style="margin-top: 4px; display: none"></div>
+        <div data-overlay="speaker" style="margin-top: 4px; color: #2563eb"></div>
+        <div data-overlay="rows"></div>
+      </div>`;
+
+    const header = <HTMLElement>(
+      this.element.querySelector('[data-overlay="header"]')
+    );
+    header.addEventListener('mousedown', (event) => this.startDrag(event));
+    this.element
+      .querySelector('[data-overlay="toggle"]')
+      .addEventListener('click', () => {
+        this.state.collapsed = !this.state.collapsed;
+        this.applyState();
+        this.saveState();
+      });
+    document.body.appendChild(this.element);
+    this.applyState();
+  }
+
+  applyState(): void {
+    if (!this.element) return;
+    this.element.style.left = `${this.state.left}px`;
+    this.element.style.top = `${this.state.top}px`;
+    (<HTMLElement>(
+      this.element.querySelector('[data-overlay="body"]')
+    )).style.display = this.state.collapsed ? 'none' : 'block';
+    this.element.querySelector('[data-overlay="toggle"]').innerHTML = this.state
+      .collapsed
+      ? '&#9656;'
+      : '&#9662;';
+  }
+
+  saveState(): void {
+    chrome.storage.local.set({ [OVERLAY_STATE_KEY]: this.state });
+  }
+
+  startDrag(event: MouseEvent): void {
+    if ((<HTMLElement>event.target).dataset.overlay === 'toggle') return;
+    event.preventDefault();
+    this._dragOffset = {
+      x: event.clientX - this.state.left,
+      y: event.clientY - this.state.top,
+    };
+    const onMove = (moveEvent: MouseEvent) => {
+      // Keep the header within the window
+      this.state.left = Math.min(
+        Math.max(moveEvent.clientX - this._dragOffset.x, 0),
+        window.innerWidth - 40,
+      );
+      this.state.top = Math.min(
+        Math.max(moveEvent.clientY - this._dragOffset.y, 0),
+        window.innerHeight - 20,
+      );
+      this.applyState();
+    };
+    const onUp = () => {
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+      this._dragOffset = null;
+      this.saveState();
+    };
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+  }
+}
@@ -3,9 +3,37 @@ import Logger from './Logger';
 import { ParticipantEvent, ParticipantEventEnum } from './ParticipantEvent';
 import { ParticipantNode } from './ParticipantNode';
 import config from './config';
+import { ParticipantRecord } from './MeetingRecord';
+
+/**
+ * Another box counted as the participant's: the totals it brought, and those
+ * counted while following it, so that it can be split out again.
+ */
+export interface ParticipantMerge {
+  initialIds: string[];
+  name: string;
+  profileImageUrl: string;
+  at: number;
+  manual: boolean; // merged by hand rather than recognized by name and image
+  joinedAt: number; // when its box was first seen
+  totalSpeakingTime: number;
+  estimatedSpeakingTime: number;
+  turnCount: number;
+  interruptionsMade: number;
+  interruptionsReceived: number;
+}
+
+type MergeTotal =
+  | 'totalSpeakingTime'
+  | 'estimatedSpeakingTime'
+  | 'turnCount'
+  | 'interruptionsMade'
+  | 'interruptionsReceived';
 
 export class Participant {
   initialId: string;
+  initialIds: string[]; // ids of all the boxes counted as theirs, the first one is initialId
+  merges: ParticipantMerge[] = []; // rejoins and manual merges, oldest first
   node: ParticipantNode;
   microphoneObserver: MutationObserver;
   name: string;
@@ -15,10 +43,35 @@ export class Participant {
   lastSpeakingEnd: number = null; // When did they stopped/pause speaking
   speakingStrikeTime = 0; // How long they are currently speaking, uninterrupted
   totalSpeakingTime = 0; // How long they have been speaking this meeting, total
+  estimatedSpeakingTime = 0; // Part of the total assigned from the captions, while off-grid
+  speakingFromCaptions = false; // Whether the current turn comes from the captions
+  lastCaptionAt: number = null; // When the captions last showed them speaking
+  turnCount = 0; // How many times they started speaking
+  longestTurnTime = 0; // Longest time they spoke without pausing
+  longestStrikeTime = 0; // Longest strike, see speakingStrikeTime
+  interruptionsMade = 0; // How many times they started a strike while someone else was speaking
+  interruptionsReceived = 0; // How many times someone started a strike while they were speaking
+  lastSpokeAt: number = null; // When did they last speak, kept across strikes
+  joinedAt: number; // When we first saw them
+  lastMutationAt: number = null; // When their microphone observer last fired, for diagnostics
+  observing = false; // Whether their microphone is being observed
+  isLocalUser = false; // Whether they are the user of this browser, see findLocalParticipant
+  onStartSpeaking: (participant: Participant) => void;
   _logger: Logger;
 
-  constructor(initialId: string) {
+  /**
+   * @param initialId the data-participant-id of the participant's box
+   * @param onStartSpeaking called when the participant starts speaking, before
+   * their state is updated, so that other participants can be compared to it.
+   */
+  constructor(
+    initialId: string,
+    onStartSpeaking?: (participant: Participant) => void,
+  ) {
     this.initialId = initialId;
+    this.initialIds = [initialId];
+    this.joinedAt = new Date().getTime();
+    this.onStartSpeaking = onStartSpeaking || null;
     this.node = new ParticipantNode(initialId);
     if (config.PersistEvents)
       this.events.push(new ParticipantEvent(ParticipantEventEnum.JOINED));
@@ -28,10 +81,14 @@ export class Participant {
   }
 
   getIdentifier(): string {
-    // TODO maybe find a mixed way with name also?
+    // Their other boxes, recognized by name and image, are in initialIds.
     return this.initialId;
   }
 
+  hasInitialId(initialId: string): boolean {
+    return this.initialIds.includes(initialId);
+  }
+
   isPresentationBox(): boolean {
     return this.name == '' && this.profileImageUrl == '';
   }
@@ -68,19 +125,66 @@ export class Participant {
     return this.totalSpeakingTime + this.getLiveSpeakingTime();
   }
 
+  /**
+   * Returns the part of the total speaking time assigned from the captions.
+   */
+  getEstimatedSpeakingTime(): number {
+    return (
+      this.estimatedSpeakingTime +
+      (this.speakingFromCaptions ? this.getLiveSpeakingTime() : 0)
+    );
+  }
+
+  /**
+   * Whether the participant is speaking right now, as opposed to paused.
+   */
+  isSpeaking(): boolean {
+    return !!this.speakingStrikeStart;
+  }
+
+  /**
+   * Returns the longest time they spoke without pausing, including the current turn.
+   */
+  getLongestTurnTime(): number {
+    return Math.max(this.longestTurnTime, this.getLiveSpeakingTime());
+  }
+
+  /**
+   * Returns the longest strike, including the current one.
+   */
+  getLongestStrikeTime(): number {
+    return Math.max(this.longestStrikeTime, this.getSpeakingStrikeTime());
+  }
+
+  /**
+   * Returns when they last spoke: now if they are speaking, null if they never did.
+   */
+  getLastSpokeAt(): number | null {
+    return this.isSpeaking() ? new Date().getTime() : this.lastSpokeAt;
+  }
+
+  /**
+   * Someone else started speaking while this participant was: one of them interrupted the other.
+   * @param interrupter the participant who started speaking
+   */
+  interruptedBy(interrupter: Participant): void {
+    this._addToTotal('interruptionsReceived', 1);
+    interrupter._addToTotal('interruptionsMade', 1);
+  }
+
   spokeRecently(referenceTime: number | null): boolean {
-    const RECENCY_THRESHOLD_MS = 2000;
     if (!referenceTime) {
       referenceTime = new Date().getTime();
     }
     return (
       this.lastSpeakingEnd !== null &&
-      this.lastSpeakingEnd < referenceTime - RECENCY_THRESHOLD_MS
+      this.lastSpeakingEnd < referenceTime - config.RecencyThresholdMs
     );
   }
 
   speaking(): void {
     if (!this.speakingStrikeStart) {
+      if (this.onStartSpeaking) this.onStartSpeaking(this);
       if (config.PersistEvents)
         this.events.push(
           new ParticipantEvent(ParticipantEventEnum.START_SPEAKING),
@@ -88,23 +192,57 @@ export class Participant {
       const now = new Date().getTime();
       // this._logger.log(`[${this.initialId}][${now}]`);
       this.speakingStrikeStart = now;
+      this._addToTotal('turnCount', 1);
+    }
+  }
+
+  /**
+   * The captions show them speaking while their microphone isn't observed:
+   * they speak until the captions stop for them, see endCaptionsTurn.
+   */
+  captionsSpoken(): void {
+    this.lastCaptionAt = new Date().getTime();
+    if (!this.isSpeaking()) {
+      this.speaking();
+      this.speakingFromCaptions = true;
+    }
+  }
+
+  /**
+   * Ends their turn taken from the captions when their captions stopped for long enough.
+   * @param now
+   */
+  endCaptionsTurn(now: number): void {
+    if (
+      this.speakingFromCaptions &&
+      now - this.lastCaptionAt >= config.CaptionsSilenceMs
+    ) {
+      this.pauseSpeaking(
+        Math.max(this.lastCaptionAt, this.speakingStrikeStart),
+      );
     }
   }
 
   /**
    * Calculate the speaking time since he/she has last started and adds it to the total.
+   * @param now when they stopped, if not right now
    */
-  pauseSpeaking(): void {
+  pauseSpeaking(now = new Date().getTime()): void {
     if (config.PersistEvents)
       this.events.push(
-        new ParticipantEvent(ParticipantEventEnum.STOP_SPEAKING),
+        new ParticipantEvent(ParticipantEventEnum.STOP_SPEAKING, now),
       );
-    const now = new Date().getTime();
     this.lastSpeakingEnd = now;
     // this._logger.log(`[${this.initialId}][${now}]`);
 
     if (this.speakingStrikeStart) {
+      this.lastSpokeAt = now;
       const speakingTime = now - this.speakingStrikeStart;
+      this.longestTurnTime = Math.max(this.longestTurnTime, speakingTime);
+      if (this.speakingFromCaptions) {
+        this._addToTotal('estimatedSpeakingTime', speakingTime);
+        this.speakingFromCaptions = false;
+      }
       // this._logger.log(`speakingTime is '${speakingTime}'`);
       // this._logger.log(
       //   `previous totalSpeakingTime was '${this.totalSpeakingTime}'`,
@@ -124,11 +262,181 @@ export class Participant {
 
   incrementSpeakingTime(value: number): void {
     this.speakingStrikeStart = null;
-    this.totalSpeakingTime = this.totalSpeakingTime + value;
+    this._addToTotal('totalSpeakingTime', value);
     this.speakingStrikeTime = this.speakingStrikeTime + value;
+    this.longestStrikeTime = Math.max(
+      this.longestStrikeTime,
+      this.speakingStrikeTime,
+    );
     this._logger.log(`current totalSpeakingTime '${this.totalSpeakingTime}'`);
   }
 
+  /**
+   * Sets their stats back to zero, e.g. when a new segment of the meeting
+   * starts. If they are speaking, their turn goes on from now.
+   * @param now
+   */
+  resetCounters(now = new Date().getTime()): void {
+    const speaking = this.isSpeaking();
+    this.events = [];
+    this.speakingStrikeStart = speaking ? now : null;
+    this.lastSpeakingEnd = null;
+    this.speakingStrikeTime = 0;
+    this.totalSpeakingTime = 0;
+    this.estimatedSpeakingTime = 0;
+    this.turnCount = speaking ? 1 : 0;
+    this.longestTurnTime = 0;
+    this.longestStrikeTime = 0;
+    this.interruptionsMade = 0;
+    this.interruptionsReceived = 0;
+    // Nothing left to split out of their totals
+    this.merges.forEach((merge) => {
+      merge.totalSpeakingTime = 0;
+      merge.estimatedSpeakingTime = 0;
+      merge.turnCount = 0;
+      merge.interruptionsMade = 0;
+      merge.interruptionsReceived = 0;
+    });
+    const followed = this._getFollowedMerge();
+    if (followed) followed.turnCount = this.turnCount;
+  }
+
+  /**
+   * Returns the merge whose box is followed, to which what they do from now on
+   * is counted too, or null when following their own box.
+   */
+  _getFollowedMerge(): ParticipantMerge | null {
+    return (
+      this.merges.find((m) => m.initialIds.includes(this.node.initialId)) ||
+      null
+    );
+  }
+
+  /**
+   * Adds to one of their totals, and to the followed merge's.
+   * @param key
+   * @param value
+   */
+  _addToTotal(key: MergeTotal, value: number): void {
+    this[key] += value;
+    const merge = this._getFollowedMerge();
+    if (merge) merge[key] += value;
+  }
+
+  /**
+   * Follows another of their boxes, e.g. after they rejoined.
+   * @param initialId the data-participant-id of the box, already one of theirs
+   */
+  rebind(initialId: string): void {
+    if (this.observing) this.stopObservers();
+    this.node = new ParticipantNode(initialId);
+  }
+
+  /**
+   * Counts a new box as theirs, because it shows the same name and image.
+   * What is said from it is counted to the rejoin too, once it's followed.
+   * @param initialId
+   */
+  addRejoin(initialId: string): void {
+    const now = new Date().getTime();
+    this.initialIds.push(initialId);
+    this.merges.push({
+      initialIds: [initialId],
+      name: this.name,
+      profileImageUrl: this.profileImageUrl,
+      at: now,
+      manual: false,
+      joinedAt: now,
+      totalSpeakingTime: 0,
+      estimatedSpeakingTime: 0,
+      turnCount: 0,
+      interruptionsMade: 0,
+      interruptionsReceived: 0,
+    });
+  }
+
+  /**
+   * Adds the boxes and totals of another participant to theirs.
+   * @param other the participant to merge, not to be tracked anymore
+   */
+  absorb(other: Participant): void {
+    if (other.isSpeaking()) other.pauseSpeaking();
+    if (other.observing) other.stopObservers();
+    const merge: ParticipantMerge = {
+      initialIds: other.initialIds,
+      name: other.name,
+      profileImageUrl: other.profileImageUrl,
+      at: new Date().getTime(),
+      manual: true,
+      joinedAt: other.joinedAt,
+      totalSpeakingTime: other.totalSpeakingTime,
+      estimatedSpeakingTime: other.estimatedSpeakingTime,
+      turnCount: other.turnCount,
+      interruptionsMade: other.interruptionsMade,
+      interruptionsReceived: other.interruptionsReceived,
+    };
+    this.merges.push(merge);
+    this.initialIds.push(...other.initialIds);
+    this.totalSpeakingTime += other.totalSpeakingTime;
+    this.estimatedSpeakingTime += other.estimatedSpeakingTime;
+    this.turnCount += other.turnCount;
+    this.interruptionsMade += other.interruptionsMade;
+    this.interruptionsReceived += other.interruptionsReceived;
+    this.longestTurnTime = Math.max(
+      this.longestTurnTime,
+      other.longestTurnTime,
+    );
+    this.longestStrikeTime = Math.max(
+      this.longestStrikeTime,
+      other.longestStrikeTime,
+    );
+    this.lastSpokeAt = Math.max(this.lastSpokeAt, other.lastSpokeAt) || null;
+    this.joinedAt = Math.min(this.joinedAt, other.joinedAt);
+  }
+
+  /**
+   * Takes the rejoin or merge of the given box out of their boxes and
+   * totals. The longest turn and strike can't be told apart and stay.
+   * @param initialId one of the ids of the merge
+   * @returns the merge taken out, or null if the box isn't a merged one
+   */
+  split(initialId: string): ParticipantMerge | null {
+    const merge = this.merges.find((m) => m.initialIds.includes(initialId));
+    if (!merge) return null;
+    if (merge.initialIds.includes(this.node.initialId)) {
+      // Counts their current turn to the merge before following another box
+      if (this.isSpeaking()) this.pauseSpeaking();
+      this.rebind(this.initialId);
+    }
+    this.merges.splice(this.merges.indexOf(merge), 1);
+    this.initialIds = this.initialIds.filter(
+      (id) => !merge.initialIds.includes(id),
+    );
+    this.totalSpeakingTime -= merge.totalSpeakingTime;
+    this.estimatedSpeakingTime -= merge.estimatedSpeakingTime;
+    this.turnCount -= merge.turnCount;
+    this.interruptionsMade -= merge.interruptionsMade;
+    this.interruptionsReceived -= merge.interruptionsReceived;
+    return merge;
+  }
+
+  /**
+   * Restores the totals of a participant split out of another one.
+   * @param merge
+   */
+  restoreFrom(merge: ParticipantMerge): void {
+    // Their box, if displayed, shows our stats next to their name.
+    this.initialIds = [...merge.initialIds];
+    this.name = merge.name;
+    this.profileImageUrl = merge.profileImageUrl;
+    this.joinedAt = merge.joinedAt;
+    this.totalSpeakingTime = merge.totalSpeakingTime;
+    this.estimatedSpeakingTime = merge.estimatedSpeakingTime;
+    this.turnCount = merge.turnCount;
+    this.interruptionsMade = merge.interruptionsMade;
+    this.interruptionsReceived = merge.interruptionsReceived;
+  }
+
   /**
    * Checks if the participant is currently speaking looking at the CSS classes of the wave.
    */
@@ -147,6 +455,7 @@ export class Participant {
     const microphoneElement = this.node.getMicrophoneElement();
     if (microphoneElement) {
       this.microphoneObserver = new MutationObserver((mutations) => {
+        this.lastMutationAt = new Date().getTime();
         const isSpeaking = this.isParticipantSpeaking();
         if (isSpeaking) {
           this.speaking();
@@ -164,11 +473,44 @@ export class Participant {
         attributes: true,
         attributeOldValue: true,
       });
+      this.observing = true;
     }
   }
 
   stopObservers(): void {
     this.microphoneObserver.disconnect();
+    this.observing = false;
     this.pauseSpeaking();
   }
+
+  toObject(): ParticipantRecord {
+    const record: ParticipantRecord = {
+      id: this.initialId,
+      name: this.name,
+      profileImageUrl: this.profileImageUrl,
+      totalSpeakingTime: this.getTotalSpeakingTime(),
+      estimatedSpeakingTime: this.getEstimatedSpeakingTime(),
+      turnCount: this.turnCount,
+      longestTurnTime: this.getLongestTurnTime(),
+      longestStrikeTime: this.getLongestStrikeTime(),
+      interruptionsMade: this.interruptionsMade,
+      interruptionsReceived: this.interruptionsReceived,
+      lastSpokeAt: this.getLastSpokeAt(),
+      joinedAt: this.joinedAt,
+      isLocalUser: this.isLocalUser,
+      rejoins: this.merges.map((m) => ({
+        initialId: m.initialIds[0],
+        name: m.name,
+        at: m.at,
+        manual: m.manual,
+      })),
+    };
+    if (config.PersistEvents) {
+      record.events = this.events.map((e) => ({
+        event: e.event,
+        datetime: e.datetime,
+      }));
+    }
+    return record;
+  }
 }
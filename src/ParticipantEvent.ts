@@ -2,9 +2,9 @@ export class ParticipantEvent {
   event: ParticipantEventEnum;
   datetime: number;
 
-  constructor(eventType: ParticipantEventEnum) {
+  constructor(eventType: ParticipantEventEnum, datetime?: number) {
     this.event = eventType;
-    this.datetime = new Date().getTime();
+    this.datetime = datetime || new Date().getTime();
   }
 }
 
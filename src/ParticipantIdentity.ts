@@ -0,0 +1,114 @@
+import { Participant } from './Participant';
+
+// Prefix of the ids of the participants only heard in the captions, without a box.
+const CAPTIONS_ID_PREFIX = 'captions:';
+
+/**
+ * Returns the id of someone off-grid, named by the captions.
+ * @param name
+ */
+export function getCaptionsParticipantId(name: string): string {
+  return `${CAPTIONS_ID_PREFIX}${encodeURIComponent(name)}`;
+}
+
+/**
+ * Whether we only know the participant from the captions: no box of theirs was seen.
+ */
+export function isKnownFromCaptions(participant: Participant): boolean {
+  return participant.initialId.startsWith(CAPTIONS_ID_PREFIX);
+}
+
+/**
+ * Looks for the participant with the name displayed in the captions.
+ * @param participants
+ * @param name
+ */
+export function findParticipantByName<T extends { name: string }>(
+  participants: T[],
+  name: string,
+): T | null {
+  const key = name.trim().toLowerCase();
+  return participants.find((p) => p.name.trim().toLowerCase() === key) || null;
+}
+
+/**
+ * Returns the pattern of the "You" Meet displays for the user of this
+ * browser: on their own box, and as their name in the captions.
+ * @param you the translation of "you", see meetUiString
+ */
+function getYouPattern(you: string): RegExp {
+  return new RegExp(`^\\(?${you}\\)?$`, 'i');
+}
+
+/**
+ * Whether the name displayed in the captions is the user of this browser's.
+ * @param name
+ * @param you
+ */
+export function isLocalUserName(name: string, you: string): boolean {
+  return getYouPattern(you).test(name.trim());
+}
+
+/**
+ * Looks for the user of this browser: the participant whose box shows "You"
+ * among its names.
+ * @param participants
+ * @param you the translation of "you", see meetUiString
+ */
+export function findLocalParticipant(
+  participants: Participant[],
+  you: string,
+): Participant | null {
+  const pattern = getYouPattern(you);
+  return (
+    participants.find((p) => {
+      const nameElements = p.node.getNameElements();
+      return (
+        !!nameElements &&
+        Array.from(nameElements).some((element) =>
+          pattern.test(element.textContent.trim()),
+        )
+      );
+    }) || null
+  );
+}
+
+/**
+ * Returns what identifies a person across their boxes: the name and the
+ * profile image Meet displays. Null when the box doesn't show a name yet.
+ * @param name
+ * @param profileImageUrl
+ */
+export function getIdentityKey(
+  name: string,
+  profileImageUrl: string,
+): string | null {
+  if (!name) return null;
+  return `${name.trim().toLowerCase()}|${profileImageUrl || ''}`;
+}
+
+/**
+ * Looks for the participant a new box belongs to: someone with the same
+ * name and image whose box is gone, because they rejoined or Meet
+ * re-rendered their box, or someone with the same name only heard in the
+ * captions so far. When several match, we can't tell who it is and leave it
+ * to be merged by hand.
+ * @param participants the participants tracked so far
+ * @param newcomer the participant read from the new box
+ */
+export function findRejoiningParticipant(
+  participants: Participant[],
+  newcomer: Participant,
+): Participant | null {
+  const key = getIdentityKey(newcomer.name, newcomer.profileImageUrl);
+  if (!key) return null;
+  const candidates = participants.filter(
+    (p) =>
+      p !== newcomer &&
+      !p.node.getMainElement() &&
+      (getIdentityKey(p.name, p.profileImageUrl) === key ||
+        (isKnownFromCaptions(p) &&
+          getIdentityKey(p.name, newcomer.profileImageUrl) === key)),
+  );
+  return candidates.length === 1 ? candidates[0] : null;
+}
@@ -3,16 +3,23 @@ import { jsControllerCodes } from './constants';
 export class ParticipantNode {
   initialId: string;
   mainNodeQuerySelector: string;
-  microphoneQuerySelector: string;
-  nameNodeQuerySelector: string;
-  imageProfileNodeQuerySelector: string;
 
   constructor(initialId: string) {
     this.initialId = initialId;
     this.mainNodeQuerySelector = `div[data-participant-id="${this.initialId}"]`;
-    this.microphoneQuerySelector = `div[jscontroller="${jsControllerCodes.microphoneBox}"]`;
-    this.nameNodeQuerySelector = `div[jscontroller="${jsControllerCodes.participantNameBox}"]`;
-    this.imageProfileNodeQuerySelector = `img[jscontroller="${jsControllerCodes.imageProfile}"]`;
+  }
+
+  // The codes below can be updated by the selector registry during the meeting.
+  get microphoneQuerySelector(): string {
+    return `div[jscontroller="${jsControllerCodes.microphoneBox}"]`;
+  }
+
+  get nameNodeQuerySelector(): string {
+    return `div[jscontroller="${jsControllerCodes.participantNameBox}"]`;
+  }
+
+  get imageProfileNodeQuerySelector(): string {
+    return `img[jscontroller="${jsControllerCodes.imageProfile}"]`;
   }
 
   getMainElement(): Element | null {
@@ -39,15 +46,18 @@ export class ParticipantNode {
   getName(): string {
     const nameElements = this.getNameElements();
     if (nameElements && nameElements.length > 0) {
-      return nameElements[0].innerHTML;
+      // As text, like the names in the captions
+      return nameElements[0].textContent;
     }
     return '';
   }
 
-  getImageProfileElement(): Element {
-    return this.getMainElement().querySelector(
-      `${this.imageProfileNodeQuerySelector}`,
-    );
+  getImageProfileElement(): Element | null {
+    const mainElement = this.getMainElement();
+    if (mainElement) {
+      return mainElement.querySelector(`${this.imageProfileNodeQuerySelector}`);
+    }
+    return null;
   }
 
   getImageProfileSrc(): string {
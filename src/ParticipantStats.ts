@@ -0,0 +1,92 @@
+import { ParticipantRecord } from './MeetingRecord';
+import { escapeHtml, formatTime } from './Utils';
+
+function formatDuration(ms: number): string {
+  return formatTime(ms) || '0s';
+}
+
+/**
+ * Returns the average time the participant spoke without pausing.
+ */
+export function getAverageTurnTime(participant: ParticipantRecord): number {
+  return participant.turnCount
+    ? participant.totalSpeakingTime / participant.turnCount
+    : 0;
+}
+
+/**
+ * Returns for how long the participant has been silent, e.g. "2:05 ago".
+ * @param participant
+ * @param now reference time, e.g. when the record was taken
+ */
+export function formatTimeSinceLastSpoke(
+  participant: ParticipantRecord,
+  now: number,
+): string {
+  if (participant.lastSpokeAt === null) return 'never';
+  const silence = now - participant.lastSpokeAt;
+  return silence < 1000 ? 'now' : `${formatDuration(silence)} ago`;
+}
+
+/**
+ * Returns a one-line summary of the participant's turns.
+ */
+export function formatTurnStats(participant: ParticipantRecord): string {
+  return (
+    `${participant.turnCount} turns, avg ${formatDuration(
+      getAverageTurnTime(participant),
+    )}, longest ${formatDuration(participant.longestTurnTime)}, ` +
+    `strike ${formatDuration(participant.longestStrikeTime)}`
+  );
+}
+
+/**
+ * Returns a one-line summary of the participant's interruptions.
+ */
+export function formatInterruptionStats(
+  participant: ParticipantRecord,
+): string {
+  return `interrupted ${participant.interruptionsMade}, was interrupted ${participant.interruptionsReceived}`;
+}
+
+/**
+ * Tells how the participant's speaking time was obtained: measured with
+ * their microphone, estimated from the captions while they were off-grid,
+ * or both.
+ */
+export function formatMeasurement(participant: ParticipantRecord): string {
+  if (!participant.estimatedSpeakingTime) return 'measured';
+  if (participant.estimatedSpeakingTime >= participant.totalSpeakingTime) {
+    return 'estimated from captions';
+  }
+  return `${formatDuration(
+    participant.estimatedSpeakingTime,
+  )} estimated from captions`;
+}
+
+/**
+ * Returns an HTML table of the turn statistics, one row per participant.
+ * @param participants
+ * @param now reference time for the time since they last spoke
+ */
+export function makeStatsTableHTML(
+  participants: ParticipantRecord[],
+  now: number,
+): string {
+  const header =
+    '<tr><th>Name</th><th title="Turns">#</th><th title="Average turn">Avg</th>' +
+    '<th title="Longest turn">Max</th><th title="Longest strike">Strike</th>' +
+    '<th title="Interruptions made / received">Int.</th><th title="Last spoke">Last</th></tr>';
+  const rows = participants.map(
+    (p) =>
+      `<tr><td>${escapeHtml(p.name)}</td><td>${p.turnCount}</td>` +
+      `<td>${formatDuration(getAverageTurnTime(p))}</td>` +
+      `<td>${formatDuration(p.longestTurnTime)}</td>` +
+      `<td>${formatDuration(p.longestStrikeTime)}</td>` +
+      `<td>${p.interruptionsMade}/${p.interruptionsReceived}</td>` +
+      `<td>${formatTimeSinceLastSpoke(p, now)}</td></tr>`,
+  );
+  return `<table style="width: 90%; font-size: x-small; text-align: left">${header}${rows.join(
+    '',
+  )}</table>`;
+}
@@ -0,0 +1,279 @@
+import {
+  getTotalSpokenTime,
+  MeetingRecord,
+  ParticipantRecord,
+} from './MeetingRecord';
+import { getBalanceScore } from './Analytics';
+import { getAgendaSections } from './Agenda';
+import { escapeHtml, formatPercentage, formatTime } from './Utils';
+import { meetUiString } from './constants';
+import { findParticipantByName, isLocalUserName } from './ParticipantIdentity';
+
+/**
+ * The summary report of a meeting: a self-contained HTML page, with its
+ * styles inlined and no scripts, so that it can be printed or shared as a
+ * file.
+ */
+
+export interface ReportRow {
+  name: string;
+  joinedAt: number | null;
+  speakingTime: number; // ms
+  share: number; // of the time spoken, from 0 to 1
+  turnCount: number;
+  interjectionCount: number;
+}
+
+export interface ReportStats {
+  rows: ReportRow[]; // most vocal first
+  spokenTime: number; // ms
+  balance: number; // see getBalanceScore
+  interjectionCount: number; // including the speakers of the captions only
+  mostVocal: ReportRow[];
+  leastVocal: ReportRow[]; // least vocal first, none of the most vocal
+}
+
+export const REPORT_CSS = `
+body { font: 14px sans-serif; color: #1f2937; max-width: 48rem; margin: 1rem auto; padding: 0 1rem; }
+h1 { font-size: 1.4rem; margin-bottom: 0.2rem; }
+h2 { font-size: 1.1rem; margin-top: 1.5rem; border-bottom: 1px solid #d1d5db; }
+h3 { font-size: 1rem; margin-bottom: 0.2rem; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 2px 6px; border-bottom: 1px solid #e5e7eb; }
+.muted { color: #6b7280; }
+.highlights { display: flex; gap: 2rem; }
+.transcript p { margin: 0.2rem 0; }
+.transcript .time { color: #6b7280; font-size: 0.8rem; margin-right: 0.4rem; }
+section, tr, svg { page-break-inside: avoid; }
+@media print { .no-print { display: none; } body { margin: 0; } }
+`;
+
+function formatDuration(ms: number): string {
+  return formatTime(ms) || '0s';
+}
+
+function formatClock(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+/**
+ * Looks for the participant a caption is from, like the content script does
+ * when it's displayed: "You" is the user of the browser that recorded it, in
+ * whichever language Meet was in.
+ * @param participants
+ * @param who the name the captions displayed
+ */
+function findCaptionAuthor(
+  participants: ParticipantRecord[],
+  who: string,
+): ParticipantRecord | null {
+  const isYou = Object.keys(meetUiString).some((lang) =>
+    isLocalUserName(who, meetUiString[lang].you),
+  );
+  if (isYou) return participants.find((p) => p.isLocalUser) || null;
+  return findParticipantByName(participants, who);
+}
+
+/**
+ * Returns the figures of the report.
+ * @param record
+ * @param vocalCount participants listed as most vocal, and as least vocal
+ */
+export function getReportStats(
+  record: MeetingRecord,
+  vocalCount = 3,
+): ReportStats {
+  const interjections = new Map<ParticipantRecord, number>();
+  const interjectionCount = record.closedCaptions.filter((caption) => {
+    if (!caption.interjection) return false;
+    const author = findCaptionAuthor(record.participants, caption.who);
+    if (author) interjections.set(author, (interjections.get(author) || 0) + 1);
+    return true;
+  }).length;
+  const spokenTime = getTotalSpokenTime(record);
+  const rows = record.participants
+    .map((p) => ({
+      name: p.name,
+      joinedAt: p.joinedAt,
+      speakingTime: p.totalSpeakingTime,
+      share: spokenTime ? p.totalSpeakingTime / spokenTime : 0,
+      turnCount: p.turnCount,
+      interjectionCount: interjections.get(p) || 0,
+    }))
+    .sort((a, b) => b.speakingTime - a.speakingTime);
+  const mostVocal = rows.slice(
+    0,
+    Math.min(vocalCount, Math.ceil(rows.length / 2)),
+  );
+  return {
+    rows,
+    spokenTime,
+    balance: getBalanceScore(rows.map((r) => r.speakingTime)),
+    interjectionCount,
+    mostVocal,
+    leastVocal: rows.slice(mostVocal.length).slice(-vocalCount).reverse(),
+  };
+}
+
+/**
+ * Renders the speaking shares as horizontal bars, most vocal first.
+ */
+function makeShareChartSVG(rows: ReportRow[]): string {
+  const rowHeight = 20;
+  const width = 560;
+  const labelWidth = 160;
+  const barWidth = width - labelWidth - 60;
+  const height = Math.max(rows.length, 1) * rowHeight;
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-size="12">`;
+  rows.forEach((row, idx) => {
+    const y = idx * rowHeight;
+    svg +=
+      `<text x="${labelWidth - 6}" y="${y + 14}" text-anchor="end">${escapeHtml(
+        row.name,
+      )}</text>` +
+      `<rect x="${labelWidth}" y="${y + 4}" width="${(
+        row.share * barWidth
+      ).toFixed(1)}" height="12" fill="#60a5fa" />` +
+      `<text x="${(labelWidth + row.share * barWidth + 4).toFixed(1)}" y="${
+        y + 14
+      }">${formatPercentage(row.share, 1)}</text>`;
+  });
+  return `${svg}</svg>`;
+}
+
+function makeVocalListHTML(title: string, rows: ReportRow[]): string {
+  return `<div>
+      <h3>${title}</h3>
+      ${
+        rows.length
+          ? `<ol>${rows
+              .map(
+                (r) =>
+                  `<li>${escapeHtml(r.name)}: ${formatDuration(
+                    r.speakingTime,
+                  )} (${formatPercentage(r.share, 1)})</li>`,
+              )
+              .join('')}</ol>`
+          : '<p class="muted">Nobody</p>'
+      }
+    </div>`;
+}
+
+function makeAttendanceHTML(record: MeetingRecord, rows: ReportRow[]): string {
+  if (!rows.length) return '<p class="muted">Nobody was seen.</p>';
+  return `<table>
+      <tr><th>Name</th><th>Joined</th><th>Speaking time</th><th>Share</th><th>Turns</th><th>Interjections</th></tr>
+      ${rows
+        .map(
+          (r) => `<tr>
+            <td>${escapeHtml(r.name)}</td>
+            <td>${
+              r.joinedAt !== null
+                ? `${formatClock(
+                    r.joinedAt,
+                  )} <span class="muted">+${formatDuration(
+                    Math.max(0, r.joinedAt - record.startedAt),
+                  )}</span>`
+                : '<span class="muted">unknown</span>'
+            }</td>
+            <td>${formatDuration(r.speakingTime)}</td>
+            <td>${formatPercentage(r.share, 1)}</td>
+            <td>${r.turnCount}</td>
+            <td>${r.interjectionCount}</td>
+          </tr>`,
+        )
+        .join('')}
+    </table>`;
+}
+
+/**
+ * Renders the captions, under the headings of the agenda items. As in the
+ * markdown transcript, interjections are in italics and continuations don't
+ * repeat the speaker.
+ */
+function makeTranscriptHTML(record: MeetingRecord): string {
+  if (!record.closedCaptions.length) {
+    return '<p class="muted">No captions were recorded.</p>';
+  }
+  const sections = getAgendaSections(record.agenda);
+  let html = '';
+  record.closedCaptions.forEach((caption) => {
+    while (sections.length && sections[0].startedAt <= caption.when) {
+      html += `<h3>${escapeHtml(sections.shift().title)}</h3>`;
+    }
+    const what = escapeHtml(caption.what);
+    html += `<p><span class="time">${formatClock(caption.when)}</span>${
+      caption.continuation ? '' : `<b>${escapeHtml(caption.who)}:</b> `
+    }${caption.interjection ? `<i>${what}</i>` : what}</p>`;
+  });
+  return html;
+}
+
+/**
+ * Returns the body of the report.
+ * @param record
+ * @param title e.g. the name of the meeting's series, or its id
+ */
+export function makeReportBodyHTML(
+  record: MeetingRecord,
+  title: string,
+): string {
+  const stats = getReportStats(record);
+  const end = record.endedAt
+    ? formatClock(record.endedAt)
+    : '<span class="muted">still going</span>';
+  return `<h1>${escapeHtml(title)}</h1>
+    <p class="muted">${new Date(
+      record.startedAt,
+    ).toLocaleDateString()}, ${formatClock(record.startedAt)} to ${end}</p>
+    <section>
+      <h2>Summary</h2>
+      <p>
+        Duration: <b>${formatDuration(record.elapsed)}</b>,
+        ${stats.rows.length} participants,
+        ${formatDuration(stats.spokenTime)} spoken,
+        balance ${Math.round(stats.balance * 100)}%,
+        ${stats.interjectionCount} interjections
+      </p>
+      <div class="highlights">
+        ${makeVocalListHTML('Most vocal', stats.mostVocal)}
+        ${makeVocalListHTML('Least vocal', stats.leastVocal)}
+      </div>
+    </section>
+    <section>
+      <h2>Speaking share</h2>
+      ${
+        stats.spokenTime
+          ? makeShareChartSVG(stats.rows)
+          : '<p class="muted">Nobody spoke.</p>'
+      }
+    </section>
+    <section>
+      <h2>Attendance</h2>
+      ${makeAttendanceHTML(record, stats.rows)}
+    </section>
+    <section class="transcript">
+      <h2>Transcript</h2>
+      ${makeTranscriptHTML(record)}
+    </section>`;
+}
+
+/**
+ * Returns the report as a standalone HTML document.
+ * @param record
+ * @param title
+ */
+export function toReportHtml(record: MeetingRecord, title: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(title)} - Meeting report</title>
+    <style>${REPORT_CSS}</style>
+  </head>
+  <body>
+    ${makeReportBodyHTML(record, title)}
+  </body>
+</html>
+`;
+}
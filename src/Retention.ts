@@ -0,0 +1,95 @@
+import { MeetingHistory, MeetingRecord } from './MeetingRecord';
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export interface RetentionPolicy {
+  maxMeetings: number;
+  maxAgeDays: number;
+  transcriptMaxAgeDays: number;
+}
+
+/**
+ * Returns the history keys, oldest meeting first.
+ */
+function keysByAge(history: MeetingHistory): string[] {
+  return Object.keys(history).sort(
+    (a, b) => history[a].startedAt - history[b].startedAt,
+  );
+}
+
+function withoutTranscript(record: MeetingRecord): MeetingRecord {
+  return { ...record, closedCaptions: [] };
+}
+
+/**
+ * Applies the retention policy: drops the meetings that are too old or
+ * beyond the maximum count, and the transcripts that are too old.
+ * @param history the history to prune, left untouched
+ * @param policy
+ * @param now reference time, in ms
+ * @returns the pruned history
+ */
+export function applyRetentionPolicy(
+  history: MeetingHistory,
+  policy: RetentionPolicy,
+  now: number = new Date().getTime(),
+): MeetingHistory {
+  const pruned: MeetingHistory = {};
+  const keys = keysByAge(history).reverse();
+  keys.slice(0, policy.maxMeetings).forEach((key) => {
+    const record = history[key];
+    const age = now - record.startedAt;
+    if (age > policy.maxAgeDays * DAY_MS) return;
+    pruned[key] =
+      age > policy.transcriptMaxAgeDays * DAY_MS && record.closedCaptions.length
+        ? withoutTranscript(record)
+        : record;
+  });
+  return pruned;
+}
+
+/**
+ * Returns an estimate of the number of bytes a value takes in chrome.storage,
+ * which stores values as JSON.
+ */
+export function estimateSize(value: unknown): number {
+  return JSON.stringify(value).length;
+}
+
+/**
+ * Frees space until the history fits in the given size: first drops the
+ * transcripts of the oldest meetings, then the oldest meetings themselves.
+ * @param history the history to prune, left untouched
+ * @param maxBytes size the history should fit in
+ * @param keepKey a meeting that must be kept whole, e.g. the ongoing one
+ * @returns the pruned history
+ */
+export function pruneToSize(
+  history: MeetingHistory,
+  maxBytes: number,
+  keepKey?: string,
+): MeetingHistory {
+  const pruned: MeetingHistory = { ...history };
+  const sizes: { [meetingKey: string]: number } = {};
+  let totalSize = 2; // Curly braces
+  Object.keys(pruned).forEach((key) => {
+    sizes[key] = estimateSize(key) + estimateSize(pruned[key]) + 2;
+    totalSize += sizes[key];
+  });
+  const candidates = keysByAge(pruned).filter((key) => key !== keepKey);
+
+  for (let i = 0; i < candidates.length && totalSize > maxBytes; i++) {
+    const key = candidates[i];
+    if (!pruned[key].closedCaptions.length) continue;
+    pruned[key] = withoutTranscript(pruned[key]);
+    const newSize = estimateSize(key) + estimateSize(pruned[key]) + 2;
+    totalSize -= sizes[key] - newSize;
+    sizes[key] = newSize;
+  }
+  for (let i = 0; i < candidates.length && totalSize > maxBytes; i++) {
+    const key = candidates[i];
+    totalSize -= sizes[key];
+    delete pruned[key];
+  }
+  return pruned;
+}
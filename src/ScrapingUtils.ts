@@ -20,3 +20,18 @@ export function getJSControllerDiv(
   }
   return element;
 }
+
+/**
+ * How a Meet UI element was found.
+ */
+export enum HookResolution {
+  PRIMARY = 'primary', // via the code of the selector registry
+  FALLBACK = 'fallback', // via a heuristic, the registry is likely outdated
+  MISSING = 'missing',
+}
+
+export interface HookLookup {
+  element: Element | null;
+  resolution: HookResolution;
+  code: string; // the jscontroller code that matched, or the one expected
+}
@@ -0,0 +1,105 @@
+import {
+  ClosedCaptionEventRecord,
+  MeetingHistory,
+  MeetingRecord,
+} from './MeetingRecord';
+
+export interface TranscriptSearchQuery {
+  text: string; // every word has to be found in the caption, case-insensitive
+  speaker: string; // empty for any speaker
+  from: number | null; // earliest meeting start, inclusive
+  to: number | null; // latest meeting start, inclusive
+}
+
+export interface TranscriptMatch {
+  meetingKey: string;
+  meeting: MeetingRecord;
+  captionIndex: number;
+  caption: ClosedCaptionEventRecord;
+  before: ClosedCaptionEventRecord[]; // the captions just before, for context
+  after: ClosedCaptionEventRecord[];
+}
+
+/**
+ * Splits the searched text into lowercase words.
+ */
+export function getSearchTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term.length);
+}
+
+function meetingMatches(
+  meeting: MeetingRecord,
+  query: TranscriptSearchQuery,
+): boolean {
+  return (
+    (query.from === null || meeting.startedAt >= query.from) &&
+    (query.to === null || meeting.startedAt <= query.to)
+  );
+}
+
+function captionMatches(
+  caption: ClosedCaptionEventRecord,
+  terms: string[],
+  speaker: string,
+): boolean {
+  if (speaker && caption.who !== speaker) return false;
+  const what = caption.what.toLowerCase();
+  return terms.every((term) => what.includes(term));
+}
+
+/**
+ * Looks for the captions matching the query in all the saved meetings, most
+ * recent meeting first. An empty query matches nothing.
+ * @param history
+ * @param query
+ * @param contextSize how many captions to return before and after each match
+ */
+export function searchTranscripts(
+  history: MeetingHistory,
+  query: TranscriptSearchQuery,
+  contextSize = 1,
+): TranscriptMatch[] {
+  const terms = getSearchTerms(query.text);
+  if (!terms.length && !query.speaker) return [];
+
+  const matches: TranscriptMatch[] = [];
+  Object.keys(history)
+    .map((key): [string, MeetingRecord] => [key, history[key]])
+    .filter(([, meeting]) => meetingMatches(meeting, query))
+    .sort((a, b) => b[1].startedAt - a[1].startedAt)
+    .forEach(([meetingKey, meeting]) => {
+      const captions = meeting.closedCaptions;
+      captions.forEach((caption, captionIndex) => {
+        if (!captionMatches(caption, terms, query.speaker)) return;
+        matches.push({
+          meetingKey,
+          meeting,
+          captionIndex,
+          caption,
+          before: captions.slice(
+            Math.max(0, captionIndex - contextSize),
+            captionIndex,
+          ),
+          after: captions.slice(
+            captionIndex + 1,
+            captionIndex + 1 + contextSize,
+          ),
+        });
+      });
+    });
+  return matches;
+}
+
+/**
+ * Returns the names of everyone who appears in the saved transcripts, sorted.
+ */
+export function getSpeakers(history: MeetingHistory): string[] {
+  const speakers = new Set<string>();
+  Object.keys(history).forEach((key) => {
+    history[key].closedCaptions.forEach((caption) => speakers.add(caption.who));
+  });
+  return Array.from(speakers).sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,192 @@
+import {
+  MeetingSegmentRecord,
+  ParticipantRecord,
+  PauseRecord,
+} from './MeetingRecord';
+
+/**
+ * Changes sent by the popup, all optional: an empty change only reads the
+ * state of the tracking.
+ */
+export interface TrackingChange {
+  pause?: boolean;
+  resume?: boolean;
+  reset?: boolean; // all the counters, and the segments
+  newSegment?: string; // the name of the segment to start, may be empty
+}
+
+export interface TrackingState {
+  started: boolean; // whether the meeting started
+  paused: boolean;
+  segmentName: string; // '' until a second segment is started
+  segmentCount: number;
+}
+
+/**
+ * Sums up the records of the same participants, told apart by id, e.g. over
+ * the segments of a meeting. The latest record gives their name and image.
+ * @param segments the participant records of each segment, oldest first
+ */
+export function combineParticipantRecords(
+  segments: ParticipantRecord[][],
+): ParticipantRecord[] {
+  const combined: ParticipantRecord[] = [];
+  segments.forEach((participants) =>
+    participants.forEach((p) => {
+      const existing = combined.find((c) => c.id === p.id);
+      if (!existing) {
+        combined.push({ ...p, rejoins: [...p.rejoins] });
+        return;
+      }
+      existing.name = p.name;
+      existing.profileImageUrl = p.profileImageUrl || existing.profileImageUrl;
+      existing.totalSpeakingTime += p.totalSpeakingTime;
+      existing.estimatedSpeakingTime += p.estimatedSpeakingTime;
+      existing.turnCount += p.turnCount;
+      existing.longestTurnTime = Math.max(
+        existing.longestTurnTime,
+        p.longestTurnTime,
+      );
+      existing.longestStrikeTime = Math.max(
+        existing.longestStrikeTime,
+        p.longestStrikeTime,
+      );
+      existing.interruptionsMade += p.interruptionsMade;
+      existing.interruptionsReceived += p.interruptionsReceived;
+      existing.lastSpokeAt =
+        Math.max(existing.lastSpokeAt, p.lastSpokeAt) || null;
+      existing.joinedAt = existing.joinedAt || p.joinedAt;
+      existing.rejoins = p.rejoins;
+      existing.isLocalUser = existing.isLocalUser || p.isLocalUser;
+      if (p.events) {
+        existing.events = [...(existing.events || []), ...p.events];
+      }
+    }),
+  );
+  return combined.sort((a, b) => b.totalSpeakingTime - a.totalSpeakingTime);
+}
+
+/**
+ * Controls of the tracking during a meeting, from the popup: pauses, e.g.
+ * breaks or off-the-record discussions during which nothing is tracked, and
+ * segments, whose stats start from zero and are kept apart in the record.
+ */
+export class MeetingSegments {
+  pauses: PauseRecord[] = [];
+  closedSegments: MeetingSegmentRecord[] = [];
+  trackingStartedAt: number = null; // start of the meeting, or of the last reset
+  segmentStartedAt: number = null;
+  segmentName = '';
+
+  /**
+   * Starts tracking, when the meeting starts or the counters are reset.
+   * @param now
+   */
+  start(now: number): void {
+    this.trackingStartedAt = now;
+    this.segmentStartedAt = now;
+    this.segmentName = '';
+    this.closedSegments = [];
+    // Tracking stays paused across a reset.
+    this.pauses = this.isPaused() ? [{ startedAt: now, endedAt: null }] : [];
+  }
+
+  isPaused(): boolean {
+    const lastPause = this.pauses[this.pauses.length - 1];
+    return !!lastPause && lastPause.endedAt === null;
+  }
+
+  /**
+   * @returns whether tracking was running
+   */
+  pause(now: number): boolean {
+    if (this.isPaused()) return false;
+    this.pauses.push({ startedAt: now, endedAt: null });
+    return true;
+  }
+
+  /**
+   * @returns whether tracking was paused
+   */
+  resume(now: number): boolean {
+    if (!this.isPaused()) return false;
+    this.pauses[this.pauses.length - 1].endedAt = now;
+    return true;
+  }
+
+  /**
+   * Returns how long tracking was paused between the two times.
+   * @param from
+   * @param to
+   */
+  getPausedTime(from: number, to: number): number {
+    return this.pauses.reduce((total, pause) => {
+      const start = Math.max(pause.startedAt, from);
+      const end = Math.min(pause.endedAt !== null ? pause.endedAt : to, to);
+      return total + Math.max(0, end - start);
+    }, 0);
+  }
+
+  /**
+   * Returns the time tracked since the meeting started or was reset.
+   * @param now
+   */
+  getElapsed(now: number): number {
+    return (
+      now -
+      this.trackingStartedAt -
+      this.getPausedTime(this.trackingStartedAt, now)
+    );
+  }
+
+  /**
+   * Ends the current segment with the stats of the participants, which are
+   * then reset for the next one.
+   * @param participants the records of the participants for this segment
+   * @param name of the next segment, a default one is given if empty
+   * @param now
+   */
+  startSegment(
+    participants: ParticipantRecord[],
+    name: string,
+    now: number,
+  ): void {
+    this.closedSegments.push(this._makeSegmentRecord(participants, now, now));
+    this.segmentStartedAt = now;
+    this.segmentName = name;
+  }
+
+  _makeSegmentRecord(
+    participants: ParticipantRecord[],
+    endedAt: number | null,
+    now: number,
+  ): MeetingSegmentRecord {
+    return {
+      name: this.segmentName || `Segment ${this.closedSegments.length + 1}`,
+      startedAt: this.segmentStartedAt,
+      endedAt,
+      elapsed:
+        now -
+        this.segmentStartedAt -
+        this.getPausedTime(this.segmentStartedAt, now),
+      participants,
+    };
+  }
+
+  /**
+   * Returns all the segments, the ongoing one last, or none if no segment
+   * was started by hand.
+   * @param participants the records of the participants for the ongoing segment
+   * @param now
+   */
+  getSegments(
+    participants: ParticipantRecord[],
+    now: number,
+  ): MeetingSegmentRecord[] {
+    if (!this.closedSegments.length) return [];
+    return [
+      ...this.closedSegments,
+      this._makeSegmentRecord(participants, null, now),
+    ];
+  }
+}
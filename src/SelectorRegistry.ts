@@ -0,0 +1,195 @@
+import * as bundledSelectors from './selectors.json';
+import {
+  joinButtonsClasses,
+  jsControllerCodes,
+  jsNames,
+  microphoneStatuses,
+} from './constants';
+import Logger from './Logger';
+
+const OVERRIDE_KEY = 'selectorOverrides'; // chrome.storage.sync, set from the options page
+const LEARNED_KEY = 'learnedSelectors'; // chrome.storage.local, found by the fallbacks
+
+const logger = new Logger('SelectorRegistry');
+
+export interface SelectorRegistry {
+  version: number;
+  jsControllerCodes: { [name: string]: string };
+  microphoneStatuses: { [name: string]: string };
+  joinButtons: { [name: string]: string };
+  jsNames: { [name: string]: string };
+}
+
+export type SelectorGroup = Exclude<keyof SelectorRegistry, 'version'>;
+
+// Learned codes only apply to the bundled registry version they were found with.
+interface LearnedSelectors {
+  bundledVersion: number;
+  selectors: Partial<SelectorRegistry>;
+}
+
+const groups: SelectorGroup[] = [
+  'jsControllerCodes',
+  'microphoneStatuses',
+  'joinButtons',
+  'jsNames',
+];
+
+// Objects read by the scraping code, updated in place.
+const liveGroups: { [group in SelectorGroup]: { [name: string]: string } } = {
+  jsControllerCodes,
+  microphoneStatuses,
+  joinButtons: joinButtonsClasses,
+  jsNames,
+};
+
+export function getBundledRegistry(): SelectorRegistry {
+  return {
+    version: bundledSelectors.version,
+    jsControllerCodes: { ...bundledSelectors.jsControllerCodes },
+    microphoneStatuses: { ...bundledSelectors.microphoneStatuses },
+    joinButtons: { ...bundledSelectors.joinButtons },
+    jsNames: { ...bundledSelectors.jsNames },
+  };
+}
+
+/**
+ * Returns the registry currently used by the scraping code.
+ */
+export function getCurrentRegistry(): SelectorRegistry {
+  return {
+    version: bundledSelectors.version,
+    jsControllerCodes: { ...jsControllerCodes },
+    microphoneStatuses: { ...microphoneStatuses },
+    joinButtons: { ...joinButtonsClasses },
+    jsNames: { ...jsNames },
+  };
+}
+
+/**
+ * Copies the known string entries of the source on top of the target.
+ */
+function mergeSelectors(
+  target: SelectorRegistry,
+  source: Partial<SelectorRegistry>,
+): void {
+  groups.forEach((group) => {
+    const sourceGroup = source && source[group];
+    if (!sourceGroup || typeof sourceGroup !== 'object') return;
+    Object.keys(target[group]).forEach((name) => {
+      if (typeof sourceGroup[name] === 'string' && sourceGroup[name]) {
+        target[group][name] = sourceGroup[name];
+      }
+    });
+  });
+}
+
+/**
+ * Builds the registry from, by increasing priority: the bundled file, the
+ * codes learned by the fallbacks and the override set in the options page.
+ * Overrides and learned codes older than the bundled file are ignored.
+ * @param override
+ * @param learned
+ */
+export function resolveRegistry(
+  override: Partial<SelectorRegistry> | null,
+  learned: LearnedSelectors | null,
+): SelectorRegistry {
+  const registry = getBundledRegistry();
+  if (learned && learned.bundledVersion === registry.version) {
+    mergeSelectors(registry, learned.selectors);
+  }
+  if (override && (override.version || 0) >= registry.version) {
+    mergeSelectors(registry, override);
+  }
+  return registry;
+}
+
+function applyRegistry(registry: SelectorRegistry): void {
+  groups.forEach((group) => {
+    Object.assign(liveGroups[group], registry[group]);
+  });
+}
+
+/**
+ * Loads the selectors from the storage into the objects used to scrape Meet.
+ */
+export function loadSelectors(callback?: () => void): void {
+  chrome.storage.sync.get([OVERRIDE_KEY], (syncResult) => {
+    chrome.storage.local.get([LEARNED_KEY], (localResult) => {
+      applyRegistry(
+        resolveRegistry(syncResult[OVERRIDE_KEY], localResult[LEARNED_KEY]),
+      );
+      if (callback) callback();
+    });
+  });
+}
+
+/**
+ * Reloads the selectors when the override or the learned codes change.
+ */
+export function watchSelectors(): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (
+      (areaName === 'sync' && changes[OVERRIDE_KEY]) ||
+      (areaName === 'local' && changes[LEARNED_KEY])
+    ) {
+      loadSelectors();
+    }
+  });
+}
+
+/**
+ * Saves a code found by a fallback, so that the next meetings use it
+ * directly, and starts using it right away.
+ * @param group
+ * @param name
+ * @param value
+ */
+export function learnSelector(
+  group: SelectorGroup,
+  name: string,
+  value: string,
+): void {
+  if (liveGroups[group][name] === value) return;
+  logger.log(`Learned ${group}.${name} = '${value}'`);
+  liveGroups[group][name] = value;
+
+  chrome.storage.local.get([LEARNED_KEY], (result) => {
+    let learned: LearnedSelectors = result[LEARNED_KEY];
+    if (!learned || learned.bundledVersion !== bundledSelectors.version) {
+      learned = { bundledVersion: bundledSelectors.version, selectors: {} };
+    }
+    learned.selectors[group] = { ...learned.selectors[group], [name]: value };
+    chrome.storage.local.set({ [LEARNED_KEY]: learned });
+  });
+}
+
+/**
+ * Forgets the codes found by the fallbacks.
+ */
+export function clearLearnedSelectors(callback?: () => void): void {
+  chrome.storage.local.remove(LEARNED_KEY, callback);
+}
+
+export function getSelectorOverride(
+  callback: (override: Partial<SelectorRegistry> | null) => void,
+): void {
+  chrome.storage.sync.get([OVERRIDE_KEY], (result) => {
+    callback(result[OVERRIDE_KEY] || null);
+  });
+}
+
+/**
+ * Saves the registry override, or removes it when null.
+ */
+export function saveSelectorOverride(
+  override: Partial<SelectorRegistry> | null,
+  callback?: () => void,
+): void {
+  if (override) {
+    chrome.storage.sync.set({ [OVERRIDE_KEY]: override }, callback);
+  } else {
+    chrome.storage.sync.remove(OVERRIDE_KEY, callback);
+  }
+}
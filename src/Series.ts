@@ -0,0 +1,168 @@
+import {
+  getMeetingKey,
+  getTotalSpokenTime,
+  MeetingHistory,
+  MeetingRecord,
+} from './MeetingRecord';
+
+const SERIES_NAMES_KEY = 'seriesNames'; // chrome.storage.sync, set from the dashboard
+
+/**
+ * Sessions of a recurring meeting, i.e. sharing the same meeting code.
+ */
+export interface MeetingSeries {
+  meetingId: string;
+  name: string; // given by the user, the meeting code otherwise
+  sessions: MeetingRecord[]; // oldest first
+}
+
+export interface SeriesNames {
+  [meetingId: string]: string;
+}
+
+export interface PersonDelta {
+  name: string;
+  spokenTime: number; // ms, in the session
+  share: number; // of the time spoken in the session, from 0 to 1
+  usualSpokenTime: number; // ms, average over the other sessions they attended
+  usualShare: number;
+  sessionsAttended: number; // among the other sessions
+  delta: number; // share - usualShare
+  present: boolean; // whether they were in the session
+  quieterThanUsual: boolean;
+}
+
+export interface SessionComparison {
+  session: MeetingRecord;
+  otherSessionCount: number;
+  deltas: PersonDelta[]; // biggest drop first
+}
+
+/**
+ * Groups the sessions of the history by meeting code, most recent series first.
+ * @param history
+ * @param names the series named by the user
+ * @param minSessions series with fewer sessions are left out
+ */
+export function getSeries(
+  history: MeetingHistory,
+  names: SeriesNames,
+  minSessions = 2,
+): MeetingSeries[] {
+  const byId: { [meetingId: string]: MeetingRecord[] } = {};
+  Object.keys(history).forEach((key) => {
+    const record = history[key];
+    byId[record.meetingId] = [...(byId[record.meetingId] || []), record];
+  });
+  return Object.keys(byId)
+    .filter((meetingId) => byId[meetingId].length >= minSessions)
+    .map((meetingId) => ({
+      meetingId,
+      name: names[meetingId] || meetingId,
+      sessions: byId[meetingId].sort((a, b) => a.startedAt - b.startedAt),
+    }))
+    .sort(
+      (a, b) =>
+        b.sessions[b.sessions.length - 1].startedAt -
+        a.sessions[a.sessions.length - 1].startedAt,
+    );
+}
+
+interface PersonSession {
+  spokenTime: number;
+  share: number;
+}
+
+function getPersonSessions(
+  record: MeetingRecord,
+): {
+  [name: string]: PersonSession;
+} {
+  const total = getTotalSpokenTime(record);
+  const people: { [name: string]: PersonSession } = {};
+  record.participants.forEach((p) => {
+    const person = people[p.name] || { spokenTime: 0, share: 0 };
+    person.spokenTime += p.totalSpeakingTime;
+    person.share = total ? person.spokenTime / total : 0;
+    people[p.name] = person;
+  });
+  return people;
+}
+
+/**
+ * Compares each person's speaking time in a session to what they usually
+ * say in the other sessions of the series.
+ * @param series
+ * @param sessionKey the session to compare, see getMeetingKey
+ * @param shareDropMin drop of share from which someone is quieter than usual
+ */
+export function compareSessionToSeries(
+  series: MeetingSeries,
+  sessionKey: string,
+  shareDropMin: number,
+): SessionComparison | null {
+  const session = series.sessions.find((s) => getMeetingKey(s) === sessionKey);
+  if (!session) return null;
+  const others = series.sessions
+    .filter((s) => s !== session)
+    .map(getPersonSessions);
+  const current = getPersonSessions(session);
+
+  const names = new Set(Object.keys(current));
+  others.forEach((people) => Object.keys(people).forEach((n) => names.add(n)));
+
+  const deltas = Array.from(names).map(
+    (name): PersonDelta => {
+      const attended = others.filter((people) => people[name]);
+      const average = (field: keyof PersonSession) =>
+        attended.length
+          ? attended.reduce((sum, people) => sum + people[name][field], 0) /
+            attended.length
+          : 0;
+      const person = current[name] || { spokenTime: 0, share: 0 };
+      const usualShare = average('share');
+      const delta = person.share - usualShare;
+      return {
+        name,
+        spokenTime: person.spokenTime,
+        share: person.share,
+        usualSpokenTime: average('spokenTime'),
+        usualShare,
+        sessionsAttended: attended.length,
+        delta,
+        present: !!current[name],
+        quieterThanUsual:
+          !!current[name] && attended.length > 0 && -delta >= shareDropMin,
+      };
+    },
+  );
+  return {
+    session,
+    otherSessionCount: others.length,
+    deltas: deltas.sort((a, b) => a.delta - b.delta),
+  };
+}
+
+export function getSeriesNames(callback: (names: SeriesNames) => void): void {
+  chrome.storage.sync.get([SERIES_NAMES_KEY], (result) => {
+    callback(result[SERIES_NAMES_KEY] || {});
+  });
+}
+
+/**
+ * Names the series of a meeting code, or removes its name when empty.
+ */
+export function saveSeriesName(
+  meetingId: string,
+  name: string,
+  callback?: () => void,
+): void {
+  getSeriesNames((names) => {
+    if (name) {
+      names[meetingId] = name;
+    } else {
+      delete names[meetingId];
+    }
+    chrome.storage.sync.set({ [SERIES_NAMES_KEY]: names }, callback);
+  });
+}
@@ -0,0 +1,129 @@
+import config, { Config, configDefaults } from './config';
+import { AlertRule, AlertRuleType } from './Alerts';
+
+const SETTINGS_KEY = 'settings';
+
+// Lowest values of the numeric settings, above the 0 of the options' inputs
+export const settingMinimums: { [key in keyof Config]?: number } = {
+  // Run with setInterval in the Meet tab, where 0 would be a busy loop
+  MeetingStartedCheckIntervalMs: 250,
+  SummaryIntervalMs: 250,
+  ReconciliationIntervalMs: 250,
+  OverlayMaxRows: 2, // see getOverlayRows
+};
+
+/**
+ * Whether the rule can be evaluated, e.g. it wasn't saved by an older version
+ * with other fields.
+ * @param rule
+ */
+function isValidAlertRule(rule: unknown): rule is AlertRule {
+  if (!rule || typeof rule !== 'object') return false;
+  const { type, threshold, banner, notification } = <AlertRule>rule;
+  return (
+    Object.values(AlertRuleType).includes(type) &&
+    type !== AlertRuleType.AGENDA_BUDGET &&
+    typeof threshold === 'number' &&
+    isFinite(threshold) &&
+    threshold >= 0 &&
+    typeof banner === 'boolean' &&
+    typeof notification === 'boolean'
+  );
+}
+
+/**
+ * Keeps the overrides whose key and type match a default setting, raises the
+ * numbers below their minimum and drops the malformed alert rules.
+ * @param overrides the raw object read from chrome.storage.sync
+ */
+function sanitizeSettings(overrides: unknown): Partial<Config> {
+  const settings: Partial<Config> = {};
+  if (!overrides || typeof overrides !== 'object') return settings;
+  Object.keys(configDefaults).forEach((key) => {
+    const value = overrides[key];
+    const defaultValue = configDefaults[key];
+    if (
+      value !== undefined &&
+      Array.isArray(value) === Array.isArray(defaultValue) &&
+      typeof value === typeof defaultValue
+    ) {
+      settings[key] = value;
+    }
+  });
+  Object.keys(settingMinimums).forEach((key) => {
+    if (settings[key] !== undefined) {
+      settings[key] = Math.max(settings[key], settingMinimums[key]);
+    }
+  });
+  if (settings.AlertRules) {
+    settings.AlertRules = settings.AlertRules.filter(isValidAlertRule);
+  }
+  return settings;
+}
+
+/**
+ * Updates the config in place, so that the modules reading it pick the
+ * new values up, and returns the keys whose value changed.
+ * @param overrides
+ */
+function applySettings(overrides: Partial<Config>): string[] {
+  const changedKeys: string[] = [];
+  Object.keys(configDefaults).forEach((key) => {
+    const value =
+      overrides[key] !== undefined ? overrides[key] : configDefaults[key];
+    if (JSON.stringify(config[key]) !== JSON.stringify(value)) {
+      config[key] = value;
+      changedKeys.push(key);
+    }
+  });
+  return changedKeys;
+}
+
+/**
+ * Reads the user's settings from chrome.storage.sync into the config.
+ */
+export function loadSettings(callback?: () => void): void {
+  chrome.storage.sync.get([SETTINGS_KEY], (result) => {
+    applySettings(sanitizeSettings(result[SETTINGS_KEY]));
+    if (callback) callback();
+  });
+}
+
+/**
+ * Keeps the config up to date when the settings are changed, e.g. from the options page.
+ * @param onChange called with the keys of the settings that changed
+ */
+export function watchSettings(
+  onChange?: (changedKeys: string[]) => void,
+): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'sync' || !changes[SETTINGS_KEY]) return;
+    const changedKeys = applySettings(
+      sanitizeSettings(changes[SETTINGS_KEY].newValue),
+    );
+    if (changedKeys.length && onChange) onChange(changedKeys);
+  });
+}
+
+/**
+ * Saves the settings that differ from the defaults.
+ */
+export function saveSettings(
+  settings: Partial<Config>,
+  callback?: () => void,
+): void {
+  const overrides = {};
+  Object.keys(sanitizeSettings(settings)).forEach((key) => {
+    if (JSON.stringify(settings[key]) !== JSON.stringify(configDefaults[key])) {
+      overrides[key] = settings[key];
+    }
+  });
+  chrome.storage.sync.set({ [SETTINGS_KEY]: overrides }, callback);
+}
+
+/**
+ * Restores all the default settings.
+ */
+export function resetSettings(callback?: () => void): void {
+  chrome.storage.sync.remove(SETTINGS_KEY, callback);
+}
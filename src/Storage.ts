@@ -1,6 +1,18 @@
 import Logger from './Logger';
 import { Participant } from './Participant';
 import { ClosedCaptions } from './ClosedCaptions';
+import {
+  ClosedCaptionEventRecord,
+  getMeetingKey,
+  MeetingHistory,
+  MeetingRecord,
+  MEETING_RECORD_SCHEMA_VERSION,
+} from './MeetingRecord';
+import { migrateMeetingRecord, needsMigration } from './Migrations';
+import { applyRetentionPolicy, estimateSize, pruneToSize } from './Retention';
+import config from './config';
+import { Agenda } from './Agenda';
+import { combineParticipantRecords, MeetingSegments } from './Segments';
 
 export class MeetingInformation {
   meetingId: string;
@@ -8,6 +20,9 @@ export class MeetingInformation {
   elapsed: number;
   participants: Participant[];
   closedCaptions: ClosedCaptions;
+  agenda: Agenda;
+  segments: MeetingSegments;
+  endedAt: number | null;
 
   constructor(
     meetingId: string,
@@ -15,25 +30,80 @@ export class MeetingInformation {
     elapsed: number,
     participants: Participant[],
     closedCaptions: ClosedCaptions,
+    agenda: Agenda,
+    segments: MeetingSegments,
+    endedAt: number | null = null,
   ) {
     this.meetingId = meetingId;
     this.startedAt = startedAt;
     this.elapsed = elapsed;
     this.participants = participants;
     this.closedCaptions = closedCaptions;
+    this.agenda = agenda;
+    this.segments = segments;
+    this.endedAt = endedAt;
   }
 
-  toObject(): unknown {
+  /**
+   * Returns the serializable record of the meeting, participants sorted
+   * by speaking time, summed up over the segments.
+   * @param withCaptions false to leave the transcript out, e.g. when it's
+   * synced apart
+   */
+  toObject(withCaptions = true): MeetingRecord {
+    const participants = this.participants
+      .map((p) => p.toObject())
+      .sort((a, b) => b.totalSpeakingTime - a.totalSpeakingTime);
+    const segments = this.segments.getSegments(
+      participants,
+      new Date().getTime(),
+    );
     return {
+      schemaVersion: MEETING_RECORD_SCHEMA_VERSION,
       meetingId: this.meetingId,
       startedAt: this.startedAt,
+      endedAt: this.endedAt,
       elapsed: this.elapsed,
-      participants: this.participants,
+      participants: segments.length
+        ? combineParticipantRecords(segments.map((s) => s.participants))
+        : participants,
+      closedCaptions: withCaptions ? this.closedCaptions.toObject() : [],
+      agenda: this.agenda.toObject(),
+      pauses: this.segments.pauses.map((pause) => ({ ...pause })),
+      segments,
     };
   }
 }
+/**
+ * A meeting going on in one of the tabs, or which just ended there.
+ */
+export interface LiveMeeting {
+  meetingKey: string;
+  tabId: number | null; // null until the background page registered the tab
+  record: MeetingRecord;
+}
+
+const CAPTIONS_CHUNK_SIZE = 200; // captions per key of a live transcript
+
+// The history is read, changed and written back as a whole: the writes run
+// one at a time, or one would overwrite what another just saved.
+const historyWrites: ((done: () => void) => void)[] = [];
+
+function queueHistoryWrite(write: (done: () => void) => void): void {
+  historyWrites.push(write);
+  if (historyWrites.length === 1) write(nextHistoryWrite);
+}
+
+function nextHistoryWrite(): void {
+  historyWrites.shift();
+  if (historyWrites.length) historyWrites[0](nextHistoryWrite);
+}
+
 export class Storage {
-  currentKey = 'current';
+  liveKeyPrefix = 'live|'; // followed by the meeting key, one per tab
+  liveTabKeyPrefix = 'liveTab|'; // followed by the tab id, holds the meeting key
+  liveCaptionsKeyPrefix = 'liveCaptions|'; // followed by the meeting key and the chunk index
+  legacyCurrentKey = 'current'; // the single live meeting of older versions
   historyKey = 'history';
   _logger: Logger;
 
@@ -41,41 +111,333 @@ export class Storage {
     this._logger = new Logger('Storage');
   }
 
-  set(meetingInformation: MeetingInformation): void {
-    // this._logger.log(meetingInformation);
-    this.saveCurrentMeeting(meetingInformation);
-    this.saveHistory(meetingInformation);
+  /**
+   * Returns the live meetings of all the tabs, the latest started first.
+   */
+  getLiveMeetings(callback: (liveMeetings: LiveMeeting[]) => void): void {
+    chrome.storage.local.get(null, (result) => {
+      const liveTabs: { [meetingKey: string]: number } = {};
+      Object.keys(result)
+        .filter((key) => key.startsWith(this.liveTabKeyPrefix))
+        .forEach((key) => {
+          liveTabs[result[key]] = Number(
+            key.slice(this.liveTabKeyPrefix.length),
+          );
+        });
+      const liveMeetings: LiveMeeting[] = [];
+      Object.keys(result)
+        .filter((key) => key.startsWith(this.liveKeyPrefix))
+        .forEach((key) => {
+          const meetingKey = key.slice(this.liveKeyPrefix.length);
+          const record = migrateMeetingRecord({
+            ...result[key],
+            closedCaptions: this._getLiveCaptions(result, meetingKey),
+          });
+          if (!record) return;
+          liveMeetings.push({
+            meetingKey,
+            tabId: meetingKey in liveTabs ? liveTabs[meetingKey] : null,
+            record,
+          });
+        });
+      callback(
+        liveMeetings.sort((a, b) => b.record.startedAt - a.record.startedAt),
+      );
+    });
   }
 
-  getCurrent(callback: (currentObject: unknown) => void): void {
-    chrome.storage.local.get([this.currentKey], (result) => {
-      const currentObject = result[this.currentKey];
-      callback(currentObject);
+  getHistory(callback: (historyObject: MeetingHistory) => void): void {
+    chrome.storage.local.get([this.historyKey], (result) => {
+      callback(this.migrateHistory(result[this.historyKey]));
     });
   }
 
-  getHistory(callback: (historyObject: unknown) => void): void {
-    chrome.storage.local.get([this.historyKey], (result) => {
-      const historyObject = result[this.historyKey];
-      callback(historyObject);
+  _getLiveCaptionsKey(meetingKey: string, chunkIndex: number): string {
+    return `${this.liveCaptionsKeyPrefix}${meetingKey}|${chunkIndex}`;
+  }
+
+  /**
+   * Puts the chunks of a live transcript back together.
+   * @param items read from the storage
+   * @param meetingKey
+   */
+  _getLiveCaptions(
+    items: { [key: string]: unknown },
+    meetingKey: string,
+  ): ClosedCaptionEventRecord[] {
+    const captions: ClosedCaptionEventRecord[] = [];
+    for (
+      let chunkIndex = 0;
+      this._getLiveCaptionsKey(meetingKey, chunkIndex) in items;
+      chunkIndex++
+    ) {
+      captions.push(
+        ...(<ClosedCaptionEventRecord[]>(
+          items[this._getLiveCaptionsKey(meetingKey, chunkIndex)]
+        )),
+      );
+    }
+    return captions;
+  }
+
+  /**
+   * Saves the state of a meeting going on. Each meeting has its own key, so
+   * that the tabs don't overwrite each other, and its transcript is split in
+   * chunks, so that only the chunks changed are written.
+   * @param record
+   * @param captionsFrom the first caption changed since the previous save
+   * @param previousCaptionCount captions saved before, whose chunks left
+   * over are dropped when the transcript got shorter
+   */
+  saveLiveMeeting(
+    record: MeetingRecord,
+    captionsFrom = 0,
+    previousCaptionCount = 0,
+  ): void {
+    const meetingKey = getMeetingKey(record);
+    const captions = record.closedCaptions;
+    const items: { [key: string]: unknown } = {
+      [this.liveKeyPrefix + meetingKey]: { ...record, closedCaptions: [] },
+    };
+    const chunkCount = Math.ceil(captions.length / CAPTIONS_CHUNK_SIZE);
+    for (
+      let chunkIndex = Math.floor(captionsFrom / CAPTIONS_CHUNK_SIZE);
+      chunkIndex < chunkCount;
+      chunkIndex++
+    ) {
+      items[this._getLiveCaptionsKey(meetingKey, chunkIndex)] = captions.slice(
+        chunkIndex * CAPTIONS_CHUNK_SIZE,
+        (chunkIndex + 1) * CAPTIONS_CHUNK_SIZE,
+      );
+    }
+    chrome.storage.local.set(items);
+
+    const staleKeys = [];
+    const previousChunkCount = Math.ceil(
+      previousCaptionCount / CAPTIONS_CHUNK_SIZE,
+    );
+    for (let idx = chunkCount; idx < previousChunkCount; idx++) {
+      staleKeys.push(this._getLiveCaptionsKey(meetingKey, idx));
+    }
+    if (staleKeys.length) chrome.storage.local.remove(staleKeys);
+  }
+
+  /**
+   * Drops a live meeting and its transcript, e.g. once it ended and is kept
+   * in the history.
+   * @param meetingKey
+   * @param otherKeys to drop along, e.g. its tab
+   */
+  removeLiveMeeting(meetingKey: string, otherKeys: string[] = []): void {
+    chrome.storage.local.get(null, (result) => {
+      chrome.storage.local.remove([
+        ...otherKeys,
+        this.liveKeyPrefix + meetingKey,
+        ...Object.keys(result).filter((key) =>
+          key.startsWith(`${this.liveCaptionsKeyPrefix}${meetingKey}|`),
+        ),
+      ]);
+    });
+  }
+
+  /**
+   * Remembers which tab a live meeting is in, for the popup to talk to it.
+   * The live meeting the tab had before, if any, is dropped: it ended and is
+   * kept in the history.
+   * @param meetingKey
+   * @param tabId
+   */
+  registerLiveTab(meetingKey: string, tabId: number): void {
+    const tabKey = this.liveTabKeyPrefix + tabId;
+    chrome.storage.local.get([tabKey], (result) => {
+      const previousKey = result[tabKey];
+      if (previousKey && previousKey !== meetingKey) {
+        this.removeLiveMeeting(previousKey);
+      }
+      chrome.storage.local.set({ [tabKey]: meetingKey });
     });
   }
 
-  saveCurrentMeeting(meetingInformation: MeetingInformation): void {
-    chrome.storage.local.set({ [this.currentKey]: meetingInformation });
+  /**
+   * Drops the live meetings of a tab, e.g. once it's closed.
+   * @param tabId
+   */
+  removeLiveTab(tabId: number): void {
+    const tabKey = this.liveTabKeyPrefix + tabId;
+    chrome.storage.local.get([tabKey], (result) => {
+      if (result[tabKey]) this.removeLiveMeeting(result[tabKey], [tabKey]);
+    });
   }
 
-  saveHistory(meetingInformation: MeetingInformation): void {
-    chrome.storage.local.get([this.historyKey], (result) => {
-      let historyObject = result[this.historyKey] || {};
+  /**
+   * Drops all the live meetings, e.g. when the browser starts and none of
+   * their tabs is open anymore.
+   * @param callback
+   */
+  clearLiveMeetings(callback?: () => void): void {
+    chrome.storage.local.get(null, (result) => {
+      chrome.storage.local.remove(
+        [
+          this.legacyCurrentKey,
+          ...Object.keys(result).filter(
+            (key) =>
+              key.startsWith(this.liveKeyPrefix) ||
+              key.startsWith(this.liveTabKeyPrefix) ||
+              key.startsWith(this.liveCaptionsKeyPrefix),
+          ),
+        ],
+        callback,
+      );
+    });
+  }
+
+  /**
+   * Saves a meeting to the history. Only the background page writes it, so
+   * that the writes of all the tabs are queued: they send it their meetings.
+   * @param record
+   * @param callback called once it's written
+   */
+  saveHistory(record: MeetingRecord, callback?: () => void): void {
+    queueHistoryWrite((done) =>
+      chrome.storage.local.get(null, (result) => {
+        const historyObject = this.migrateHistory(result[this.historyKey]);
+        const meetingKey = getMeetingKey(record);
+
+        historyObject[meetingKey] = record;
+
+        chrome.storage.local.set(
+          {
+            [this.historyKey]: this.pruneHistory(
+              historyObject,
+              this._getLiveBytes(result),
+              meetingKey,
+            ),
+          },
+          () => {
+            done();
+            if (callback) callback();
+          },
+        );
+      }),
+    );
+  }
 
-      if (Array.isArray(historyObject)) historyObject = {};
+  /**
+   * Applies the retention settings to the history saved, e.g. at startup.
+   */
+  prune(callback?: () => void): void {
+    queueHistoryWrite((done) =>
+      chrome.storage.local.get(null, (result) => {
+        const historyObject = this.migrateHistory(result[this.historyKey]);
+        const prunedHistory = this.pruneHistory(
+          historyObject,
+          this._getLiveBytes(result),
+        );
+        chrome.storage.local.set({ [this.historyKey]: prunedHistory }, () => {
+          done();
+          if (callback) callback();
+        });
+      }),
+    );
+  }
+
+  /**
+   * Returns the space taken by the live meetings, which the history leaves
+   * room for.
+   * @param items read from the storage
+   */
+  _getLiveBytes(items: { [key: string]: unknown }): number {
+    return Object.keys(items)
+      .filter(
+        (key) =>
+          key.startsWith(this.liveKeyPrefix) ||
+          key.startsWith(this.liveCaptionsKeyPrefix),
+      )
+      .reduce((total, key) => total + estimateSize(items[key]), 0);
+  }
+
+  /**
+   * Returns the history pruned according to the retention settings, and
+   * small enough to stay below the share of the quota we allow ourselves.
+   * @param historyObject
+   * @param otherBytes space taken by the other keys, e.g. the live meetings
+   * @param keepKey a meeting that must not be pruned
+   */
+  pruneHistory(
+    historyObject: MeetingHistory,
+    otherBytes: number,
+    keepKey?: string,
+  ): MeetingHistory {
+    const retainedHistory = applyRetentionPolicy(historyObject, {
+      maxMeetings: config.HistoryMaxMeetings,
+      maxAgeDays: config.HistoryMaxAgeDays,
+      transcriptMaxAgeDays: config.TranscriptMaxAgeDays,
+    });
+    const maxBytes =
+      chrome.storage.local.QUOTA_BYTES * config.StorageQuotaMaxRatio -
+      otherBytes;
+    return pruneToSize(retainedHistory, maxBytes, keepKey);
+  }
 
-      const meetingKey = `${meetingInformation.meetingId}|${meetingInformation.startedAt}`;
+  /**
+   * Returns how many bytes the extension uses, and the quota it can use.
+   */
+  getBytesInUse(callback: (bytesInUse: number, quota: number) => void): void {
+    chrome.storage.local.getBytesInUse(null, (bytesInUse) => {
+      callback(bytesInUse, chrome.storage.local.QUOTA_BYTES);
+    });
+  }
+
+  /**
+   * Upgrades the records already saved to the current schema version,
+   * and writes them back if any of them changed.
+   */
+  migrate(callback?: () => void): void {
+    // The live meeting of older versions is in the history too.
+    chrome.storage.local.remove(this.legacyCurrentKey);
+    queueHistoryWrite((done) =>
+      chrome.storage.local.get([this.historyKey], (result) => {
+        const changes = {};
+        const rawHistory = result[this.historyKey];
+        if (
+          rawHistory &&
+          (Array.isArray(rawHistory) ||
+            Object.keys(rawHistory).some((key) =>
+              needsMigration(rawHistory[key]),
+            ))
+        ) {
+          changes[this.historyKey] = this.migrateHistory(rawHistory);
+        }
+        const finish = () => {
+          done();
+          if (callback) callback();
+        };
+        if (Object.keys(changes).length) {
+          this._logger.log(`Migrating ${Object.keys(changes).join(', ')}`);
+          chrome.storage.local.set(changes, finish);
+        } else {
+          finish();
+        }
+      }),
+    );
+  }
 
-      historyObject[meetingKey] = meetingInformation;
+  /**
+   * Returns the history with all its records at the current schema version,
+   * dropping the ones that can't be read.
+   */
+  migrateHistory(rawHistory: unknown): MeetingHistory {
+    const historyObject: MeetingHistory = {};
+    if (!rawHistory || Array.isArray(rawHistory)) return historyObject;
 
-      chrome.storage.local.set({ [this.historyKey]: historyObject });
+    Object.keys(rawHistory).forEach((key) => {
+      const record = migrateMeetingRecord(rawHistory[key]);
+      if (record) {
+        historyObject[key] = record;
+      } else {
+        this._logger.log(`Dropping unreadable history entry ${key}`);
+      }
     });
+    return historyObject;
   }
 }
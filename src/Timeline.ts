@@ -0,0 +1,169 @@
+import {
+  ClosedCaptionEventRecord,
+  MeetingRecord,
+  ParticipantRecord,
+} from './MeetingRecord';
+import { ParticipantEventEnum } from './ParticipantEvent';
+import { escapeHtml, formatTime } from './Utils';
+import config from './config';
+
+export interface SpeakingTurn {
+  lane: number; // Index of the participant in the record
+  start: number;
+  end: number;
+  overlapping: boolean; // Someone else spoke at the same time
+  monologue: boolean;
+}
+
+/**
+ * Rebuilds the speaking turns of a participant from their events. Pauses
+ * shorter than config.TimelineTurnMaxGapMs don't split a turn.
+ * @param participant
+ * @param lane
+ * @param meetingEnd used to close a turn still ongoing
+ */
+function getParticipantTurns(
+  participant: ParticipantRecord,
+  lane: number,
+  meetingEnd: number,
+): SpeakingTurn[] {
+  const turns: SpeakingTurn[] = [];
+  let turnStart: number = null;
+  (participant.events || []).forEach((e) => {
+    if (e.event === ParticipantEventEnum.START_SPEAKING) {
+      if (turnStart === null) turnStart = e.datetime;
+    } else if (
+      e.event === ParticipantEventEnum.STOP_SPEAKING &&
+      turnStart !== null
+    ) {
+      const previousTurn = turns[turns.length - 1];
+      if (
+        previousTurn &&
+        turnStart - previousTurn.end < config.TimelineTurnMaxGapMs
+      ) {
+        previousTurn.end = e.datetime;
+      } else {
+        turns.push({
+          lane,
+          start: turnStart,
+          end: e.datetime,
+          overlapping: false,
+          monologue: false,
+        });
+      }
+      turnStart = null;
+    }
+  });
+  if (turnStart !== null) {
+    turns.push({
+      lane,
+      start: turnStart,
+      end: meetingEnd,
+      overlapping: false,
+      monologue: false,
+    });
+  }
+  return turns;
+}
+
+/**
+ * Returns the speaking turns of all the participants, flagging the ones
+ * overlapping with someone else's and the monologues.
+ * Requires the events, which are only recorded when config.PersistEvents is on.
+ * @param record
+ */
+export function getSpeakingTurns(record: MeetingRecord): SpeakingTurn[] {
+  const meetingEnd = record.startedAt + record.elapsed;
+  const turns: SpeakingTurn[] = [];
+  record.participants.forEach((p, lane) => {
+    turns.push(...getParticipantTurns(p, lane, meetingEnd));
+  });
+  turns.sort((a, b) => a.start - b.start);
+
+  turns.forEach((turn, idx) => {
+    turn.monologue = turn.end - turn.start >= config.MonologueMinLengthMs;
+    // Turns are sorted by start: only the following ones can start within this one
+    for (let j = idx + 1; j < turns.length && turns[j].start < turn.end; j++) {
+      if (turns[j].lane !== turn.lane) {
+        turn.overlapping = true;
+        turns[j].overlapping = true;
+      }
+    }
+  });
+  return turns;
+}
+
+/**
+ * Returns the index of the caption said during the given turn, ideally by
+ * the given speaker, or -1 if none was.
+ * @param captions
+ * @param speaker
+ * @param start
+ * @param end
+ */
+export function findCaptionIndex(
+  captions: ClosedCaptionEventRecord[],
+  speaker: string,
+  start: number,
+  end: number,
+): number {
+  const overlaps = (c: ClosedCaptionEventRecord) =>
+    c.when <= end && c.when + c.howLong >= start;
+  const bySpeaker = captions.findIndex((c) => c.who === speaker && overlaps(c));
+  return bySpeaker !== -1 ? bySpeaker : captions.findIndex(overlaps);
+}
+
+const LABEL_WIDTH = 60;
+const LANE_HEIGHT = 14;
+const AXIS_HEIGHT = 12;
+
+/**
+ * Renders the speaking turns as a Gantt-like SVG chart, one lane per participant.
+ * Each bar carries its turn's lane, start and end as data attributes.
+ * @param record
+ * @param width in pixels
+ */
+export function renderTimelineSVG(record: MeetingRecord, width = 240): string {
+  const turns = getSpeakingTurns(record);
+  const chartWidth = width - LABEL_WIDTH;
+  const duration = Math.max(record.elapsed, 1);
+  const x = (time: number) =>
+    LABEL_WIDTH + ((time - record.startedAt) / duration) * chartWidth;
+  const height = record.participants.length * LANE_HEIGHT + AXIS_HEIGHT;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-size="9">`;
+  record.participants.forEach((p, lane) => {
+    const y = lane * LANE_HEIGHT;
+    svg +=
+      `<text x="0" y="${y + 10}" textLength="${
+        LABEL_WIDTH - 4
+      }" lengthAdjust="spacingAndGlyphs">${escapeHtml(p.name)}</text>` +
+      `<rect x="${LABEL_WIDTH}" y="${y + 1}" width="${chartWidth}" height="${
+        LANE_HEIGHT - 2
+      }" fill="#f3f4f6" />`;
+  });
+  turns.forEach((turn) => {
+    let color = '#60a5fa';
+    if (turn.monologue) color = '#f59e0b';
+    if (turn.overlapping) color = '#ef4444';
+    const barX = x(turn.start);
+    const barWidth = Math.max(x(turn.end) - barX, 1);
+    svg +=
+      `<rect class="timeline-turn" data-lane="${turn.lane}" data-start="${turn.start}" data-end="${turn.end}"` +
+      ` x="${barX.toFixed(1)}" y="${
+        turn.lane * LANE_HEIGHT + 2
+      }" width="${barWidth.toFixed(1)}" height="${LANE_HEIGHT - 4}"` +
+      ` fill="${color}" style="cursor: pointer">` +
+      `<title>${escapeHtml(record.participants[turn.lane].name)}: ${formatTime(
+        turn.end - turn.start,
+      )}</title></rect>`;
+  });
+  const axisY = height - 2;
+  svg +=
+    `<text x="${LABEL_WIDTH}" y="${axisY}">0s</text>` +
+    `<text x="${width}" y="${axisY}" text-anchor="end">${formatTime(
+      record.elapsed,
+    )}</text>`;
+  svg += '</svg>';
+  return svg;
+}
@@ -33,6 +33,14 @@ export function formatTime(ms: number): string {
   return timeStr;
 }
 
+/**
+ * Formats a share from 0 to 1 as a rounded percentage, e.g. "13%".
+ * @param share
+ */
+export function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
 export function copyToClipboard(newClip: string): void {
   navigator.clipboard.writeText(newClip).then(
     function () {
@@ -44,3 +52,35 @@ export function copyToClipboard(newClip: string): void {
     },
   );
 }
+
+/**
+ * Formats a share of a total as a percentage string, e.g. "12.5%".
+ * @param part
+ * @param total
+ */
+export function formatPercentage(part: number, total: number): string {
+  return `${(total !== 0 ? (part / total) * 100 : 0).toFixed(1)}%`;
+}
+
+/**
+ * Formats a number of bytes in a human readable way, e.g. "1.2 MB".
+ * @param bytes
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Escapes the characters that have a meaning in HTML/SVG markup.
+ * @param str
+ */
+export function escapeHtml(str: string): string {
+  return `${str}`
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,135 @@
+import Logger from './Logger';
+import { MeetingRecord } from './MeetingRecord';
+
+/**
+ * Posts the meeting stats to a URL of the user, e.g. a team dashboard or a
+ * chat bot: at the end of the meeting and, if set, at intervals during it.
+ * Runs in the background page, which holds the host permission of the URL.
+ */
+
+export enum WebhookEvent {
+  UPDATE = 'meeting.update', // the meeting goes on
+  END = 'meeting.end',
+}
+
+export interface WebhookPayload {
+  event: WebhookEvent;
+  sentAt: number;
+  meeting: MeetingRecord;
+}
+
+export interface WebhookSettings {
+  url: string;
+  secret: string; // signs the body when not empty
+  maxRetries: number;
+  retryDelayMs: number; // doubled after each retry
+}
+
+export const SIGNATURE_HEADER = 'X-Speaking-Time-Signature';
+const REQUEST_TIMEOUT_MS = 10 * 1000; // Receivers that don't answer in time are retried
+
+const logger = new Logger('Webhook');
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Returns the HMAC-SHA256 of the body, as "sha256=<hex>". The receiver
+ * computes it again with the shared secret to check where the stats come from.
+ * @param body
+ * @param secret
+ */
+export function signBody(body: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  return crypto.subtle
+    .importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    )
+    .then((key) => crypto.subtle.sign('HMAC', key, encoder.encode(body)))
+    .then((signature) => `sha256=${toHex(signature)}`);
+}
+
+/**
+ * Returns the origin pattern of the URL, for the host permission the
+ * requests need, e.g. "http://localhost/*" for any port, or null if the URL
+ * isn't valid.
+ * @param url
+ */
+export function getWebhookOriginPattern(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+    return `${parsed.protocol}//${parsed.hostname}/*`;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Whether a failed request may succeed later: network errors, timeouts,
+ * rate limits and server errors.
+ * @param status the HTTP status, 0 for network errors
+ */
+function isRetriable(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * POSTs the payload as JSON, retrying with an increasing delay.
+ * @param settings
+ * @param payload
+ * @param callback called with whether the receiver accepted the payload
+ */
+export function postToWebhook(
+  settings: WebhookSettings,
+  payload: WebhookPayload,
+  callback?: (delivered: boolean) => void,
+): void {
+  const body = JSON.stringify(payload);
+  const signing = settings.secret
+    ? signBody(body, settings.secret)
+    : Promise.resolve('');
+
+  const attempt = (retriesLeft: number, delayMs: number) => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    signing
+      .then((signature) =>
+        fetch(settings.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(signature ? { [SIGNATURE_HEADER]: signature } : {}),
+          },
+          body,
+          signal: controller.signal,
+        }),
+      )
+      .then(
+        (response) => response.status,
+        () => 0,
+      )
+      .then((status) => {
+        clearTimeout(timeout);
+        if (status >= 200 && status < 300) {
+          if (callback) callback(true);
+        } else if (retriesLeft > 0 && isRetriable(status)) {
+          logger.log(`Got ${status}, retrying in ${delayMs}ms`);
+          setTimeout(() => attempt(retriesLeft - 1, delayMs * 2), delayMs);
+        } else {
+          logger.log(`Giving up the ${payload.event} post, got ${status}`);
+          if (callback) callback(false);
+        }
+      });
+  };
+  attempt(settings.maxRetries, settings.retryDelayMs);
+}
@@ -1,4 +1,9 @@
 import { copyToClipboard } from '../Utils';
+import { Storage } from '../Storage';
+import { loadSettings, watchSettings } from '../Settings';
+import config from '../config';
+import { postToWebhook, WebhookEvent } from '../Webhook';
+import { getMeetingKey, MeetingRecord } from '../MeetingRecord';
 const meetNewUrl = 'https://meet.google.com/new';
 let redirect = false;
 let tabIndex = null;
@@ -30,7 +35,77 @@ const intervalSetEnvironmentFunc = function (tab) {
   });
 };
 
-chrome.runtime.onMessage.addListener(function (request) {
+// Upgrade the meetings saved by previous versions of the extension.
+chrome.runtime.onInstalled.addListener(function () {
+  const storage = new Storage();
+  loadSettings(() => storage.migrate(() => storage.prune()));
+});
+
+chrome.runtime.onStartup.addListener(function () {
+  const storage = new Storage();
+  // The tabs of the live meetings were closed with the browser.
+  storage.clearLiveMeetings();
+  loadSettings(() => storage.prune());
+});
+
+chrome.tabs.onRemoved.addListener(function (tabId) {
+  new Storage().removeLiveTab(tabId);
+});
+
+watchSettings();
+
+/**
+ * Posts the meeting to the webhook of the user, if any. The settings must be
+ * loaded.
+ * @param event
+ * @param meeting
+ */
+function sendToWebhook(event: WebhookEvent, meeting: MeetingRecord): void {
+  if (!config.WebhookUrl) return;
+  postToWebhook(
+    {
+      url: config.WebhookUrl,
+      secret: config.WebhookSecret,
+      maxRetries: config.WebhookMaxRetries,
+      retryDelayMs: config.WebhookRetryDelayMs,
+    },
+    { event, sentAt: new Date().getTime(), meeting },
+  );
+}
+
+chrome.runtime.onMessage.addListener(function (request, sender) {
+  if (request && request.notify) {
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: 'img/128.png',
+      title: request.notify.title,
+      message: request.notify.message,
+    });
+  }
+  if (request && request.webhook) {
+    // The event page may just have been woken up by the message.
+    loadSettings(() =>
+      sendToWebhook(request.webhook.event, request.webhook.meeting),
+    );
+  }
+  if (request && request.liveMeeting && sender.tab) {
+    new Storage().registerLiveTab(request.liveMeeting, sender.tab.id);
+  }
+  if (request && request.saveHistory) {
+    // The pruning depends on the settings
+    loadSettings(() => new Storage().saveHistory(request.saveHistory));
+  }
+  if (request && request.meetingEnded) {
+    loadSettings(() => {
+      const storage = new Storage();
+      // Its last live save may land after its tab is closed and dropped, see
+      // tabs.onRemoved: once it's in the history, its live state can go.
+      storage.saveHistory(request.meetingEnded, () =>
+        storage.removeLiveMeeting(getMeetingKey(request.meetingEnded)),
+      );
+      sendToWebhook(WebhookEvent.END, request.meetingEnded);
+    });
+  }
   if (request && request.createMeeting) {
     chrome.tabs.query(
       { active: true, lastFocusedWindow: true },
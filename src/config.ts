@@ -1,3 +1,69 @@
-export default {
+import { AlertRule, AlertRuleType } from './Alerts';
+
+/**
+ * Default settings. Users override them from the options page, see Settings.ts:
+ * the exported config object is updated in place when they change.
+ */
+export const configDefaults = {
   PersistEvents: false,
+  // Intervals of the meeting controller
+  MeetingStartedCheckIntervalMs: 1000, // How often we check whether the meeting started
+  SummaryIntervalMs: 1000, // How often the stats are computed, displayed and pushed to the popup
+  PersistIntervalMs: 5000, // How often the live meeting is saved, its transcript changes only
+  HistorySaveIntervalMs: 60000, // How often the meeting is saved to the history, and when it ends
+  ReconciliationIntervalMs: 5000, // How often we look for participant boxes we missed
+  MeetingEndGridMissingMs: 10000, // How long the participants can be missing before the meeting is considered over
+  // Speaking detection
+  RecencyThresholdMs: 2000, // Silence after which a speaking strike ends, if someone else spoke since
+  // Closed captions
+  InterjectionsToSequenceMinRatio: 5, // How much shorter should be an interjection vs the sequence it interrupts?
+  ShortSequenceMaxLengthMs: 3000, // Below what duration do we consider an event to be short?
+  CaptionsSilenceMs: 1500, // Time without new captions after which someone off-grid stopped speaking
+  // History retention
+  HistoryMaxMeetings: 200, // Most recent meetings kept in the history
+  HistoryMaxAgeDays: 365, // Meetings older than this are deleted
+  TranscriptMaxAgeDays: 30, // Transcripts of meetings older than this are deleted
+  StorageQuotaMaxRatio: 0.8, // Share of chrome.storage.local's quota above which we prune the history
+  SeriesShareDropMin: 0.1, // Drop of speaking share, compared to the series average, flagged as speaking less than usual
+  // Timeline
+  TimelineTurnMaxGapMs: 2000, // Pauses shorter than this don't split a turn on the timeline
+  MonologueMinLengthMs: 2 * 60 * 1000, // Turns longer than this are highlighted as monologues
+  // Facilitator alerts, evaluated every second during the meeting
+  AlertRules: <AlertRule[]>[
+    {
+      type: AlertRuleType.SPEAKING_SHARE,
+      threshold: 50, // %
+      banner: true,
+      notification: false,
+    },
+    {
+      type: AlertRuleType.STRIKE_LENGTH,
+      threshold: 5, // minutes
+      banner: true,
+      notification: false,
+    },
+    {
+      type: AlertRuleType.SILENCE,
+      threshold: 20, // minutes
+      banner: true,
+      notification: false,
+    },
+  ],
+  AlertShareMinSpokenMs: 5 * 60 * 1000, // Speaking shares aren't meaningful before this much was said
+  AlertBannerDurationMs: 15 * 1000,
+  OverlayEnabled: true, // Floating widget with the speaking shares in the Meet page
+  OverlayMaxRows: 8, // Participants listed in the widget, the others are summed up
+  // Webhook, see Webhook.ts
+  WebhookUrl: '', // Receives the meeting stats as JSON, e.g. http://localhost:8080/meetings. Empty to disable
+  WebhookSecret: '', // Signs the posts with HMAC-SHA256 when set
+  WebhookIntervalMinutes: 0, // How often the stats are posted during the meeting, 0 for only at the end
+  WebhookMaxRetries: 3,
+  WebhookRetryDelayMs: 2000, // Doubled after each retry
+};
+
+export type Config = typeof configDefaults;
+
+export default <Config>{
+  ...configDefaults,
+  AlertRules: configDefaults.AlertRules.map((rule) => ({ ...rule })),
 };
@@ -1,19 +1,14 @@
-export enum jsControllerCodes {
-  // all the participants box divs are inside this
-  participantsContainerBox = 'cGfF1e', // 'gJYtNe', 'MJfjyf' in previous versions
-  participantNameBox = 'GQnsGd',
-  microphoneBox = 'ES310d',
-  timeMeetingBox = 'ymEVmc',
-  userInformation = 'gjpsNc',
-  imageProfile = 'PcYCFc',
-  meetingDetailsInfoPane = 'dkJU2d',
-  meetingDetailsInfoPaneExtension = 'ZZZZZZ',
-  closedCaptionsSection = 'yQffFe',
-}
+import * as bundledSelectors from './selectors.json';
 
-export enum microphoneStatuses {
-  silence = 'gjg47c',
-}
+// The codes of the Meet UI elements we scrape come from the selector registry
+// (see SelectorRegistry.ts), which updates these objects in place.
+export const jsControllerCodes = { ...bundledSelectors.jsControllerCodes };
+
+export const microphoneStatuses = { ...bundledSelectors.microphoneStatuses };
+
+export const joinButtonsClasses = { ...bundledSelectors.joinButtons };
+
+export const jsNames = { ...bundledSelectors.jsNames };
 
 export const meetUiString = {
   de: {
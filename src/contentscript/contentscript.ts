@@ -1,3 +1,42 @@
 import MeetingController from '../MeetingController';
+import { loadSettings, watchSettings } from '../Settings';
+import { loadSelectors, watchSelectors } from '../SelectorRegistry';
+import { runDiagnostics } from '../Diagnostics';
 
-new MeetingController();
+loadSelectors(() =>
+  loadSettings(() => {
+    const meetingController = new MeetingController();
+    watchSettings((changedKeys) =>
+      meetingController.onSettingsChanged(changedKeys),
+    );
+    watchSelectors();
+
+    chrome.runtime.onMessage.addListener(function (
+      request,
+      sender,
+      sendResponse,
+    ) {
+      if (request && request.diagnostics) {
+        sendResponse(runDiagnostics(meetingController));
+      }
+      if (request && request.mergeParticipants) {
+        const { into, from } = request.mergeParticipants;
+        sendResponse(meetingController.mergeParticipants(into, from));
+      }
+      if (request && request.splitParticipant) {
+        const { id, initialId } = request.splitParticipant;
+        sendResponse(meetingController.splitParticipant(id, initialId));
+      }
+      if (request && request.agenda) {
+        sendResponse(meetingController.changeAgenda(request.agenda));
+      }
+      if (request && request.tracking) {
+        sendResponse(meetingController.changeTracking(request.tracking));
+      }
+      if (request && request.clearCaptions) {
+        meetingController.clearCaptions();
+        sendResponse(true);
+      }
+    });
+  }),
+);
@@ -1,8 +1,13 @@
+import { joinButtonsClasses } from '../constants';
+import { loadSelectors } from '../SelectorRegistry';
+
+loadSelectors();
+
 chrome.runtime.onMessage.addListener(function (request, sender, sendResponse) {
   try {
     if (request.join) {
-      const classLoadingContainer = 'GFartf';
-      const classContainerName = 'XCoPyb';
+      const classLoadingContainer = joinButtonsClasses.loadingContainer;
+      const classContainerName = joinButtonsClasses.joinButtonsContainerClass;
       const loadingContainer = document.querySelector(
         `div[jscontroller="${classLoadingContainer}"]`,
       );
@@ -20,7 +25,8 @@ chrome.runtime.onMessage.addListener(function (request, sender, sendResponse) {
         sendResponse({ status: false });
       }
     } else if (request.setEnvironment) {
-      const classContainerName = 'VY7JQd';
+      const classContainerName =
+        joinButtonsClasses.environmentButtonsContainerClass;
       const buttonsContainer = document.getElementsByClassName(
         classContainerName,
       );
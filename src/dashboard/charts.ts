@@ -0,0 +1,70 @@
+import { escapeHtml } from '../Utils';
+
+export interface ChartPoint {
+  time: number;
+  value: number;
+  label: string; // tooltip
+}
+
+const MARGIN_LEFT = 36;
+const MARGIN_BOTTOM = 14;
+
+/**
+ * Renders the points as an SVG line chart, time on the x axis.
+ * @param points oldest first
+ * @param formatValue formats the values of the y axis
+ * @param maxValue top of the y axis, the highest value if not given
+ * @param width in pixels
+ * @param height in pixels
+ */
+export function renderLineChartSVG(
+  points: ChartPoint[],
+  formatValue: (value: number) => string,
+  maxValue?: number,
+  width = 560,
+  height = 140,
+): string {
+  if (!points.length) {
+    return '<p class="text-gray-700">No meeting in this period.</p>';
+  }
+  const top = maxValue || Math.max(...points.map((p) => p.value), 1);
+  const start = points[0].time;
+  const duration = Math.max(points[points.length - 1].time - start, 1);
+  const chartWidth = width - MARGIN_LEFT - 8;
+  const chartHeight = height - MARGIN_BOTTOM - 6;
+  const x = (time: number) =>
+    points.length === 1
+      ? MARGIN_LEFT + chartWidth / 2
+      : MARGIN_LEFT + ((time - start) / duration) * chartWidth;
+  const y = (value: number) => 6 + chartHeight - (value / top) * chartHeight;
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-size="9">`;
+  svg +=
+    `<line x1="${MARGIN_LEFT}" y1="${y(0)}" x2="${width}" y2="${y(
+      0,
+    )}" stroke="#d1d5db" />` +
+    `<text x="${MARGIN_LEFT - 4}" y="${
+      y(top) + 6
+    }" text-anchor="end">${formatValue(top)}</text>` +
+    `<text x="${MARGIN_LEFT - 4}" y="${y(0)}" text-anchor="end">${formatValue(
+      0,
+    )}</text>`;
+  svg += `<polyline fill="none" stroke="#60a5fa" stroke-width="1.5" points="${points
+    .map((p) => `${x(p.time).toFixed(1)},${y(p.value).toFixed(1)}`)
+    .join(' ')}" />`;
+  points.forEach((p) => {
+    svg += `<circle cx="${x(p.time).toFixed(1)}" cy="${y(p.value).toFixed(
+      1,
+    )}" r="2.5" fill="#2563eb"><title>${escapeHtml(p.label)}</title></circle>`;
+  });
+  const axisY = height - 2;
+  svg +=
+    `<text x="${MARGIN_LEFT}" y="${axisY}">${new Date(
+      start,
+    ).toLocaleDateString()}</text>` +
+    `<text x="${width}" y="${axisY}" text-anchor="end">${new Date(
+      points[points.length - 1].time,
+    ).toLocaleDateString()}</text>`;
+  svg += '</svg>';
+  return svg;
+}
@@ -0,0 +1,187 @@
+import { Storage } from '../Storage';
+import { MeetingHistory, MeetingRecord } from '../MeetingRecord';
+import {
+  getMonthlyAverages,
+  getPersonTrends,
+  getRecurringMeetings,
+  PersonTrend,
+  RecurringMeeting,
+  selectMeetings,
+  summarizeMeeting,
+} from '../Analytics';
+import { renderLineChartSVG } from './charts';
+import { escapeHtml, formatShare, formatTime } from '../Utils';
+import { getSeriesNames, SeriesNames } from '../Series';
+import { loadSettings } from '../Settings';
+import { showSeries } from './series';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const storage = new Storage();
+let history: MeetingHistory = {};
+let seriesNames: SeriesNames = {};
+
+function getSelectValue(id: string): string {
+  return (<HTMLSelectElement>document.getElementById(id)).value;
+}
+
+/**
+ * Compares the person's share in the first and second halves of their
+ * meetings, e.g. "+4 pts".
+ */
+function formatShareEvolution(trend: PersonTrend): string {
+  if (trend.points.length < 2) return '';
+  const middle = Math.floor(trend.points.length / 2);
+  const average = (points: PersonTrend['points']) =>
+    points.reduce((sum, p) => sum + p.share, 0) / points.length;
+  const evolution = Math.round(
+    (average(trend.points.slice(middle)) -
+      average(trend.points.slice(0, middle))) *
+      100,
+  );
+  return `${evolution > 0 ? '+' : ''}${evolution} pts`;
+}
+
+function makeTableHTML(headers: string[], rows: string[][]): string {
+  if (!rows.length) {
+    return '<p class="text-gray-700">Nothing to show for this period.</p>';
+  }
+  return (
+    '<table class="w-full text-left">' +
+    `<tr class="text-gray-700">${headers
+      .map((header) => `<th>${header}</th>`)
+      .join('')}</tr>` +
+    rows
+      .map(
+        (row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join('')}</tr>`,
+      )
+      .join('') +
+    '</table>'
+  );
+}
+
+function makePeopleHTML(trends: PersonTrend[]): string {
+  return makeTableHTML(
+    ['Name', 'Meetings', 'Speaking time', 'Average share', 'Evolution'],
+    trends.map((trend) => [
+      escapeHtml(trend.name),
+      `${trend.meetingCount}`,
+      formatTime(trend.spokenTime) || '0s',
+      formatShare(trend.averageShare),
+      formatShareEvolution(trend),
+    ]),
+  );
+}
+
+function makeRecurringHTML(meetings: RecurringMeeting[]): string {
+  return makeTableHTML(
+    ['Meeting', 'Occurrences', 'Speaks the most', 'Their share', 'Balance'],
+    meetings.map((meeting) => [
+      escapeHtml(seriesNames[meeting.meetingId] || meeting.meetingId),
+      `${meeting.meetingCount}`,
+      escapeHtml(meeting.dominantSpeaker),
+      formatShare(meeting.dominantShare),
+      formatShare(meeting.averageBalance),
+    ]),
+  );
+}
+
+function showMeetingOptions(): void {
+  const select = <HTMLSelectElement>(
+    document.getElementById('dashboard-meeting')
+  );
+  const selected = select.value;
+  const recurring = getRecurringMeetings(selectMeetings(history, 0));
+  select.innerHTML =
+    '<option value="">All meetings</option>' +
+    recurring
+      .map(
+        (meeting) =>
+          `<option value="${escapeHtml(meeting.meetingId)}">${escapeHtml(
+            seriesNames[meeting.meetingId] || meeting.meetingId,
+          )} (${meeting.meetingCount})</option>`,
+      )
+      .join('');
+  select.value = selected;
+}
+
+function render(): void {
+  const days = Number(getSelectValue('dashboard-period'));
+  const from = days ? new Date().getTime() - days * DAY_MS : 0;
+  const meetings: MeetingRecord[] = selectMeetings(
+    history,
+    from,
+    getSelectValue('dashboard-meeting'),
+  );
+  const summaries = meetings.map(summarizeMeeting);
+  const label = (startedAt: number, meetingId: string, value: string) =>
+    `${new Date(startedAt).toLocaleString()} - ${meetingId}: ${value}`;
+
+  document.getElementById('dashboard-count').innerHTML = `${
+    meetings.length
+  } meeting${meetings.length === 1 ? '' : 's'}`;
+  document.getElementById('dashboard-monthly').innerHTML = makeTableHTML(
+    ['Month', 'Meetings', 'Talk time', 'Balance'],
+    getMonthlyAverages(summaries).map((period) => [
+      new Date(period.periodStart).toLocaleDateString(undefined, {
+        year: 'numeric',
+        month: 'long',
+      }),
+      `${period.meetingCount}`,
+      formatShare(period.averageTalkRatio),
+      formatShare(period.averageBalance),
+    ]),
+  );
+  document.getElementById('dashboard-balance').innerHTML = renderLineChartSVG(
+    summaries.map((s) => ({
+      time: s.startedAt,
+      value: s.balance,
+      label: label(s.startedAt, s.meetingId, formatShare(s.balance)),
+    })),
+    formatShare,
+    1,
+  );
+  document.getElementById(
+    'dashboard-talk-ratio',
+  ).innerHTML = renderLineChartSVG(
+    summaries.map((s) => ({
+      time: s.startedAt,
+      value: s.talkRatio,
+      label: label(s.startedAt, s.meetingId, formatShare(s.talkRatio)),
+    })),
+    formatShare,
+    1,
+  );
+  document.getElementById('dashboard-length').innerHTML = renderLineChartSVG(
+    summaries.map((s) => ({
+      time: s.startedAt,
+      value: s.elapsed,
+      label: label(s.startedAt, s.meetingId, formatTime(s.elapsed)),
+    })),
+    (ms) => formatTime(ms) || '0s',
+  );
+  document.getElementById('dashboard-people').innerHTML = makePeopleHTML(
+    getPersonTrends(meetings),
+  );
+  document.getElementById('dashboard-recurring').innerHTML = makeRecurringHTML(
+    getRecurringMeetings(meetings),
+  );
+}
+
+['dashboard-period', 'dashboard-meeting'].forEach((id) => {
+  document.getElementById(id).addEventListener('change', render);
+});
+
+function load(): void {
+  storage.getHistory(function (historyObject) {
+    getSeriesNames(function (names) {
+      history = historyObject;
+      seriesNames = names;
+      showMeetingOptions();
+      render();
+      showSeries(history, seriesNames, load);
+    });
+  });
+}
+
+loadSettings(load);
@@ -0,0 +1,152 @@
+import { getMeetingKey, MeetingHistory } from '../MeetingRecord';
+import {
+  compareSessionToSeries,
+  getSeries,
+  MeetingSeries,
+  PersonDelta,
+  saveSeriesName,
+  SeriesNames,
+} from '../Series';
+import { summarizeMeeting } from '../Analytics';
+import { escapeHtml, formatShare, formatTime } from '../Utils';
+import config from '../config';
+
+let allSeries: MeetingSeries[] = [];
+let onRenamed: () => void = null;
+
+function formatDelta(delta: number): string {
+  const points = Math.round(delta * 100);
+  return `${points > 0 ? '+' : ''}${points} pts`;
+}
+
+function getSelectedSeries(): MeetingSeries | null {
+  const meetingId = (<HTMLSelectElement>(
+    document.getElementById('series-select')
+  )).value;
+  return allSeries.find((s) => s.meetingId === meetingId) || null;
+}
+
+function makeSessionsHTML(series: MeetingSeries): string {
+  const rows = series.sessions
+    .map((session) => {
+      const summary = summarizeMeeting(session);
+      return `<tr><td>${new Date(session.startedAt).toLocaleString()}</td>
+        <td>${formatTime(session.elapsed) || '0s'}</td>
+        <td>${session.participants.length}</td>
+        <td>${formatShare(summary.talkRatio)}</td>
+        <td>${formatShare(summary.balance)}</td></tr>`;
+    })
+    .join('');
+  return `<table class="w-full text-left">
+      <tr class="text-gray-700"><th>Session</th><th>Length</th><th>People</th><th>Talk time</th><th>Balance</th></tr>
+      ${rows}
+    </table>`;
+}
+
+function makeDeltaRowHTML(d: PersonDelta): string {
+  const rowClass = d.quieterThanUsual ? 'bg-yellow-100 font-bold' : '';
+  const share = d.present ? formatShare(d.share) : 'absent';
+  const usual = d.sessionsAttended
+    ? `${formatShare(d.usualShare)} (${formatTime(d.usualSpokenTime) || '0s'})`
+    : 'first time';
+  const delta = d.present && d.sessionsAttended ? formatDelta(d.delta) : '';
+  return `<tr class="${rowClass}"><td>${escapeHtml(d.name)}</td>
+      <td>${share} (${formatTime(d.spokenTime) || '0s'})</td>
+      <td>${usual}</td><td>${delta}</td></tr>`;
+}
+
+function showComparison(): void {
+  const series = getSelectedSeries();
+  const sessionKey = (<HTMLSelectElement>(
+    document.getElementById('series-session')
+  )).value;
+  const comparison =
+    series &&
+    compareSessionToSeries(series, sessionKey, config.SeriesShareDropMin);
+  const container = document.getElementById('series-comparison');
+  if (!comparison) {
+    container.innerHTML = '';
+    return;
+  }
+  const quieter = comparison.deltas.filter((d) => d.quieterThanUsual);
+  const summary = quieter.length
+    ? `Spoke less than usual: ${quieter
+        .map((d) => escapeHtml(d.name))
+        .join(', ')}.`
+    : 'Nobody spoke much less than usual.';
+  container.innerHTML = `<p>${summary}</p>
+    <table class="w-full text-left mt-1">
+      <tr class="text-gray-700"><th>Name</th><th>This session</th><th>Usually</th><th>Difference</th></tr>
+      ${comparison.deltas.map(makeDeltaRowHTML).join('')}
+    </table>`;
+}
+
+function showSelectedSeries(): void {
+  const series = getSelectedSeries();
+  const sessionSelect = <HTMLSelectElement>(
+    document.getElementById('series-session')
+  );
+  (<HTMLInputElement>document.getElementById('series-name')).value =
+    series && series.name !== series.meetingId ? series.name : '';
+  document.getElementById('series-sessions').innerHTML = series
+    ? makeSessionsHTML(series)
+    : '<p class="text-gray-700">No meeting code was used more than once yet.</p>';
+  sessionSelect.innerHTML = series
+    ? series.sessions
+        .map(
+          (session) =>
+            `<option value="${escapeHtml(getMeetingKey(session))}">${new Date(
+              session.startedAt,
+            ).toLocaleString()}</option>`,
+        )
+        .reverse()
+        .join('')
+    : '';
+  showComparison();
+}
+
+/**
+ * Displays the series of recurring meetings of the history.
+ * @param history
+ * @param names the series named by the user
+ * @param renamed called when the user renamed a series
+ */
+export function showSeries(
+  history: MeetingHistory,
+  names: SeriesNames,
+  renamed: () => void,
+): void {
+  onRenamed = renamed;
+  allSeries = getSeries(history, names);
+  const select = <HTMLSelectElement>document.getElementById('series-select');
+  const selected = select.value;
+  select.innerHTML = allSeries
+    .map(
+      (series) =>
+        `<option value="${escapeHtml(series.meetingId)}">${escapeHtml(
+          series.name,
+        )} (${series.sessions.length})</option>`,
+    )
+    .join('');
+  if (allSeries.some((s) => s.meetingId === selected)) select.value = selected;
+  showSelectedSeries();
+}
+
+document
+  .getElementById('series-select')
+  .addEventListener('change', showSelectedSeries);
+
+document
+  .getElementById('series-session')
+  .addEventListener('change', showComparison);
+
+document.getElementById('series-rename').addEventListener('click', function () {
+  const series = getSelectedSeries();
+  if (!series) return;
+  const name = (<HTMLInputElement>(
+    document.getElementById('series-name')
+  )).value.trim();
+  saveSeriesName(series.meetingId, name, () => {
+    if (onRenamed) onRenamed();
+  });
+});
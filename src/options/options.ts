@@ -0,0 +1,363 @@
+import config, { Config } from '../config';
+import {
+  loadSettings,
+  resetSettings,
+  saveSettings,
+  settingMinimums,
+} from '../Settings';
+import { AlertRule, AlertRuleType } from '../Alerts';
+import { escapeHtml } from '../Utils';
+import { getWebhookOriginPattern } from '../Webhook';
+import {
+  clearLearnedSelectors,
+  getCurrentRegistry,
+  getSelectorOverride,
+  loadSelectors,
+  saveSelectorOverride,
+} from '../SelectorRegistry';
+
+interface SettingField {
+  key: keyof Config;
+  label: string;
+}
+
+const sections: { title: string; fields: SettingField[] }[] = [
+  {
+    title: 'Recording',
+    fields: [
+      {
+        key: 'PersistEvents',
+        label: 'Record speaking events (needed for the timeline)',
+      },
+    ],
+  },
+  {
+    title: 'Intervals',
+    fields: [
+      {
+        key: 'MeetingStartedCheckIntervalMs',
+        label: 'Meeting start check (ms)',
+      },
+      { key: 'SummaryIntervalMs', label: 'Stats refresh (ms)' },
+      { key: 'PersistIntervalMs', label: 'Live meeting save (ms)' },
+      { key: 'HistorySaveIntervalMs', label: 'History save (ms)' },
+      {
+        key: 'ReconciliationIntervalMs',
+        label: 'Participant boxes check (ms)',
+      },
+      {
+        key: 'MeetingEndGridMissingMs',
+        label: 'Participants missing before the meeting ends (ms)',
+      },
+    ],
+  },
+  {
+    title: 'Speaking detection',
+    fields: [
+      {
+        key: 'RecencyThresholdMs',
+        label: 'Silence ending a speaking strike (ms)',
+      },
+    ],
+  },
+  {
+    title: 'Closed captions',
+    fields: [
+      {
+        key: 'InterjectionsToSequenceMinRatio',
+        label: 'How much shorter an interjection is than what it interrupts',
+      },
+      {
+        key: 'ShortSequenceMaxLengthMs',
+        label: 'Longest sequence considered short (ms)',
+      },
+      {
+        key: 'CaptionsSilenceMs',
+        label: 'Captions pause ending the turn of someone off-grid (ms)',
+      },
+    ],
+  },
+  {
+    title: 'History',
+    fields: [
+      { key: 'HistoryMaxMeetings', label: 'Meetings kept' },
+      { key: 'HistoryMaxAgeDays', label: 'Delete meetings older than (days)' },
+      {
+        key: 'TranscriptMaxAgeDays',
+        label: 'Delete transcripts older than (days)',
+      },
+      {
+        key: 'StorageQuotaMaxRatio',
+        label: 'Share of the storage quota to use (0 to 1)',
+      },
+      {
+        key: 'SeriesShareDropMin',
+        label: 'Share drop flagged as speaking less than usual (0 to 1)',
+      },
+    ],
+  },
+  {
+    title: 'Timeline',
+    fields: [
+      {
+        key: 'TimelineTurnMaxGapMs',
+        label: 'Longest pause within a turn (ms)',
+      },
+      {
+        key: 'MonologueMinLengthMs',
+        label: 'Shortest turn considered a monologue (ms)',
+      },
+    ],
+  },
+  {
+    title: 'Alert settings',
+    fields: [
+      {
+        key: 'AlertShareMinSpokenMs',
+        label: 'Time spoken before checking speaking shares (ms)',
+      },
+      { key: 'AlertBannerDurationMs', label: 'Banner display duration (ms)' },
+    ],
+  },
+  {
+    title: 'Meeting widget',
+    fields: [
+      {
+        key: 'OverlayEnabled',
+        label: 'Show the speaking shares in a widget over the meeting',
+      },
+      { key: 'OverlayMaxRows', label: 'Participants listed in the widget' },
+    ],
+  },
+  {
+    title: 'Webhook',
+    fields: [
+      { key: 'WebhookUrl', label: 'URL receiving the meeting stats' },
+      { key: 'WebhookSecret', label: 'Secret signing the posts' },
+      {
+        key: 'WebhookIntervalMinutes',
+        label: 'Post during the meeting every (minutes, 0 for never)',
+      },
+      { key: 'WebhookMaxRetries', label: 'Retries of a failed post' },
+      {
+        key: 'WebhookRetryDelayMs',
+        label: 'Delay before the first retry (ms)',
+      },
+    ],
+  },
+];
+
+const alertRuleTypeLabels = {
+  [AlertRuleType.SPEAKING_SHARE]: 'Speaking share above',
+  [AlertRuleType.STRIKE_LENGTH]: 'Strike longer than',
+  [AlertRuleType.SILENCE]: 'Silent for more than',
+};
+
+function makeFieldHTML(field: SettingField): string {
+  const value = config[field.key];
+  let input = `<input type="number" step="any" min="${
+    settingMinimums[field.key] || 0
+  }" name="${field.key}" value="${value}" class="w-24 px-1" />`;
+  if (typeof value === 'boolean') {
+    input = `<input type="checkbox" name="${field.key}" ${
+      value ? 'checked' : ''
+    } />`;
+  } else if (typeof value === 'string') {
+    input = `<input type="text" name="${field.key}" value="${escapeHtml(
+      value,
+    )}" class="w-48 px-1" />`;
+  }
+  return `<label class="flex justify-between items-center mt-1">
+            <span>${field.label}</span>
+            ${input}
+          </label>`;
+}
+
+function makeAlertRuleHTML(rule: AlertRule): string {
+  const options = Object.keys(alertRuleTypeLabels)
+    .map(
+      (type) =>
+        `<option value="${type}" ${rule.type === type ? 'selected' : ''}>${
+          alertRuleTypeLabels[type]
+        }</option>`,
+    )
+    .join('');
+  return `<div class="alert-rule flex items-center mt-1">
+            <select name="type">${options}</select>
+            <input type="number" step="any" min="0" name="threshold" value="${
+              rule.threshold
+            }" class="w-16 mx-1 px-1" />
+            <label class="mx-1"><input type="checkbox" name="banner" ${
+              rule.banner ? 'checked' : ''
+            } /> banner</label>
+            <label class="mx-1"><input type="checkbox" name="notification" ${
+              rule.notification ? 'checked' : ''
+            } /> notification</label>
+            <button type="button" class="remove-alert-rule ml-auto px-1" title="Remove">&times;</button>
+          </div>`;
+}
+
+function render(): void {
+  document.getElementById('settings-sections').innerHTML = sections
+    .map(
+      (section) =>
+        `<h4 class="mt-4 font-bold">${section.title}</h4>` +
+        section.fields.map(makeFieldHTML).join(''),
+    )
+    .join('');
+  document.getElementById('alert-rules').innerHTML = config.AlertRules.map(
+    makeAlertRuleHTML,
+  ).join('');
+}
+
+function readAlertRules(): AlertRule[] {
+  return Array.from(document.querySelectorAll('.alert-rule')).map(
+    (element) => ({
+      type: <AlertRuleType>(
+        (<HTMLSelectElement>element.querySelector('[name="type"]')).value
+      ),
+      threshold: Number(
+        (<HTMLInputElement>element.querySelector('[name="threshold"]')).value,
+      ),
+      banner: (<HTMLInputElement>element.querySelector('[name="banner"]'))
+        .checked,
+      notification: (<HTMLInputElement>(
+        element.querySelector('[name="notification"]')
+      )).checked,
+    }),
+  );
+}
+
+function readSettings(): Partial<Config> {
+  const settings: Partial<Config> = {};
+  sections.forEach((section) =>
+    section.fields.forEach((field) => {
+      const input = <HTMLInputElement>(
+        document.querySelector(`[name="${field.key}"]`)
+      );
+      if (typeof config[field.key] === 'boolean') {
+        settings[field.key] = <never>input.checked;
+      } else if (typeof config[field.key] === 'string') {
+        settings[field.key] = <never>input.value.trim();
+      } else if (input.value !== '' && !isNaN(Number(input.value))) {
+        settings[field.key] = <never>Number(input.value);
+      }
+    }),
+  );
+  settings.AlertRules = readAlertRules();
+  return settings;
+}
+
+function showStatus(message: string, statusId = 'settings-status'): void {
+  const status = document.getElementById(statusId);
+  status.innerHTML = message;
+  setTimeout(() => (status.innerHTML = ''), 2000);
+}
+
+document
+  .getElementById('settings-form')
+  .addEventListener('submit', function (event) {
+    event.preventDefault();
+    const settings = readSettings();
+    // The webhook's host has to be granted while handling the click.
+    const origin = getWebhookOriginPattern(settings.WebhookUrl);
+    if (settings.WebhookUrl && !origin) {
+      showStatus('The webhook URL should start with http:// or https://.');
+      return;
+    }
+    if (!origin) {
+      saveSettings(settings, () => showStatus('Saved.'));
+      return;
+    }
+    chrome.permissions.request({ origins: [origin] }, function (granted) {
+      saveSettings(settings, () =>
+        showStatus(
+          granted
+            ? 'Saved.'
+            : 'Saved, but the webhook will fail until its host is allowed.',
+        ),
+      );
+    });
+  });
+
+document
+  .getElementById('reset-settings')
+  .addEventListener('click', function () {
+    resetSettings(() =>
+      loadSettings(() => {
+        render();
+        showStatus('Defaults restored.');
+      }),
+    );
+  });
+
+document
+  .getElementById('add-alert-rule')
+  .addEventListener('click', function () {
+    document.getElementById('alert-rules').insertAdjacentHTML(
+      'beforeend',
+      makeAlertRuleHTML({
+        type: AlertRuleType.SPEAKING_SHARE,
+        threshold: 50,
+        banner: true,
+        notification: false,
+      }),
+    );
+  });
+
+document
+  .getElementById('alert-rules')
+  .addEventListener('click', function (event) {
+    const removeButton = (<Element>event.target).closest('.remove-alert-rule');
+    if (removeButton) removeButton.closest('.alert-rule').remove();
+  });
+
+loadSettings(render);
+
+function renderSelectors(): void {
+  getSelectorOverride((override) => {
+    loadSelectors(() => {
+      (<HTMLTextAreaElement>(
+        document.getElementById('selector-override')
+      )).value = JSON.stringify(override || getCurrentRegistry(), null, 2);
+    });
+  });
+}
+
+document
+  .getElementById('save-selector-override')
+  .addEventListener('click', function () {
+    let override;
+    try {
+      override = JSON.parse(
+        (<HTMLTextAreaElement>document.getElementById('selector-override'))
+          .value,
+      );
+    } catch (e) {
+      showStatus(`Invalid JSON: ${e.message}`, 'selectors-status');
+      return;
+    }
+    saveSelectorOverride(override, () =>
+      showStatus('Saved.', 'selectors-status'),
+    );
+  });
+
+document
+  .getElementById('remove-selector-override')
+  .addEventListener('click', function () {
+    saveSelectorOverride(null, () => {
+      renderSelectors();
+      showStatus('Using the bundled selectors.', 'selectors-status');
+    });
+  });
+
+document
+  .getElementById('clear-learned-selectors')
+  .addEventListener('click', function () {
+    clearLearnedSelectors(() => {
+      renderSelectors();
+      showStatus('Learned codes forgotten.', 'selectors-status');
+    });
+  });
+
+renderSelectors();
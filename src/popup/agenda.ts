@@ -0,0 +1,141 @@
+import { AgendaItemRecord } from '../MeetingRecord';
+import {
+  AgendaChange,
+  getAgendaItemElapsed,
+  getCurrentAgendaItem,
+} from '../Agenda';
+import { escapeHtml, formatTime } from '../Utils';
+import { sendToMeetTab } from './meetTab';
+
+const MINUTE_MS = 60 * 1000;
+
+function makeSpeakersHTML(item: AgendaItemRecord): string {
+  return [...item.speakers]
+    .sort((a, b) => b.speakingTime - a.speakingTime)
+    .slice(0, 3)
+    .map((s) => {
+      const overBudget =
+        item.personBudget && s.speakingTime > item.personBudget;
+      return `<span class="${overBudget ? 'text-red-600' : ''}">${escapeHtml(
+        s.name,
+      )} ${formatTime(s.speakingTime)}</span>`;
+    })
+    .join(', ');
+}
+
+function makeItemHTML(
+  item: AgendaItemRecord,
+  index: number,
+  now: number,
+  editable: boolean,
+): string {
+  const elapsed = getAgendaItemElapsed(item, now);
+  const isCurrent = item.startedAt !== null && item.endedAt === null;
+  const overBudget = item.budget && elapsed > item.budget;
+  const owner = item.owner ? ` (${escapeHtml(item.owner)})` : '';
+  const remove =
+    editable && item.startedAt === null
+      ? `<button data-agenda-remove="${index}" title="Remove">&times;</button>`
+      : '';
+  return `<tr class="${isCurrent ? 'font-bold' : ''}">
+            <td>${escapeHtml(item.title)}${owner}</td>
+            <td class="${overBudget ? 'text-red-600' : ''}">${
+    formatTime(elapsed) || '0s'
+  } / ${formatTime(item.budget) || '-'}</td>
+            <td>${makeSpeakersHTML(item)}</td>
+            <td>${remove}</td>
+          </tr>`;
+}
+
+/**
+ * Returns the agenda items as a table: how long each one lasted compared to
+ * its budget, and who spoke the most during it.
+ * @param items
+ * @param now reference time for the current item
+ * @param editable whether the items that didn't come up can be removed
+ */
+export function formatAgenda(
+  items: AgendaItemRecord[],
+  now: number = new Date().getTime(),
+  editable = false,
+): string {
+  if (!items.length) return '';
+  return `<table class="w-full text-left" style="font-size: x-small">
+            <tr class="text-gray-700"><th>Item</th><th>Time / budget</th><th>Spoke the most</th><th></th></tr>
+            ${items
+              .map((item, index) => makeItemHTML(item, index, now, editable))
+              .join('')}
+          </table>`;
+}
+
+/**
+ * Displays the agenda items, e.g. pushed by the content script.
+ * @param items null when the tab isn't a meeting
+ */
+export function renderAgenda(items: unknown): void {
+  const container = document.getElementById('agenda');
+  // Only the content script of a meeting answers
+  container.classList.toggle('hidden', !Array.isArray(items));
+  if (!Array.isArray(items)) return;
+  const agenda = <AgendaItemRecord[]>items;
+  document.getElementById('agenda-items').innerHTML = formatAgenda(
+    agenda,
+    new Date().getTime(),
+    true,
+  );
+  const hasStarted = agenda.some((item) => item.startedAt !== null);
+  const hasNext = agenda.some((item) => item.startedAt === null);
+  const nextButton = <HTMLButtonElement>document.getElementById('agenda-next');
+  nextButton.textContent = hasStarted
+    ? hasNext
+      ? 'Next item'
+      : 'End agenda'
+    : 'Start agenda';
+  nextButton.disabled = !hasNext && !getCurrentAgendaItem(agenda);
+}
+
+function changeAgenda(change: AgendaChange): void {
+  sendToMeetTab({ agenda: change }, renderAgenda);
+}
+
+/**
+ * Displays the agenda of the meeting in the current tab, which can be
+ * edited before and during the call.
+ */
+export function showAgenda(): void {
+  changeAgenda({});
+}
+
+function getInputValue(id: string): string {
+  return (<HTMLInputElement>document.getElementById(id)).value.trim();
+}
+
+document
+  .getElementById('agenda-form')
+  .addEventListener('submit', function (event) {
+    event.preventDefault();
+    const title = getInputValue('agenda-title');
+    if (!title) return;
+    changeAgenda({
+      add: {
+        title,
+        owner: getInputValue('agenda-owner'),
+        budget: Number(getInputValue('agenda-budget')) * MINUTE_MS,
+        personBudget: Number(getInputValue('agenda-person-budget')) * MINUTE_MS,
+      },
+    });
+    (<HTMLFormElement>event.target).reset();
+  });
+
+document.getElementById('agenda-next').addEventListener('click', function () {
+  changeAgenda({ next: true });
+});
+
+document
+  .getElementById('agenda-items')
+  .addEventListener('click', function (event) {
+    const target = <HTMLElement>event.target;
+    if (target.dataset.agendaRemove) {
+      changeAgenda({ remove: Number(target.dataset.agendaRemove) });
+    }
+  });
@@ -0,0 +1,102 @@
+import {
+  DiagnosticsReport,
+  formatAgo,
+  HookDiagnostic,
+  ParticipantDiagnostic,
+  formatDiagnosticsReport,
+} from '../Diagnostics';
+import { HookResolution } from '../ScrapingUtils';
+import { copyToClipboard, escapeHtml } from '../Utils';
+
+let displayedReport: DiagnosticsReport = null;
+
+const resolutionColors = {
+  [HookResolution.PRIMARY]: 'text-green-700',
+  [HookResolution.FALLBACK]: 'text-yellow-700',
+  [HookResolution.MISSING]: 'text-red-700',
+};
+
+function makeHookHTML(hook: HookDiagnostic): string {
+  const color = resolutionColors[hook.resolution];
+  const detail =
+    escapeHtml(hook.code) +
+    (hook.detail ? ` - ${escapeHtml(hook.detail)}` : '');
+  return `<div class="bg-white p-1 rounded mt-1">
+            <div class="flex justify-between">
+              <span>${hook.name}</span>
+              <span class="${color}">${hook.resolution}</span>
+            </div>
+            <div class="text-gray-600" style="font-size: xx-small">${detail}</div>
+          </div>`;
+}
+
+function makeParticipantHTML(p: ParticipantDiagnostic, now: number): string {
+  const status =
+    (p.observing ? '' : 'not observed, ') + formatAgo(p.lastMutationAt, now);
+  return `<div class="flex justify-between" style="font-size: xx-small">
+            <span>${escapeHtml(p.name)}</span>
+            <span>${status}</span>
+          </div>`;
+}
+
+function makeReportHTML(report: DiagnosticsReport): string {
+  const participants = report.participants
+    .map((p) => makeParticipantHTML(p, report.generatedAt))
+    .join('');
+  return (
+    report.hooks.map(makeHookHTML).join('') +
+    `<div class="mt-2">Last microphone change per participant:</div>` +
+    (participants || '<div class="text-gray-700">No participant tracked.</div>')
+  );
+}
+
+function showMessage(message: string): void {
+  displayedReport = null;
+  document.getElementById(
+    'diagnostics-content',
+  ).innerHTML = `<p class="text-gray-700">${message}</p>`;
+}
+
+/**
+ * Asks the content script of the current Meet tab to check its hooks, and
+ * displays the result.
+ */
+export function showDiagnostics(): void {
+  chrome.tabs.query({ active: true, currentWindow: true }, function (tabs) {
+    const tab = tabs[0];
+    if (!tab || !tab.url || !tab.url.startsWith('https://meet.google.com/')) {
+      showMessage('Open this popup from a Google Meet tab.');
+      return;
+    }
+    chrome.tabs.sendMessage(
+      tab.id,
+      { diagnostics: true },
+      function (report: DiagnosticsReport) {
+        if (chrome.runtime.lastError || !report) {
+          showMessage(
+            'The tracker is not running in this tab: try reloading the page.',
+          );
+          return;
+        }
+        displayedReport = report;
+        document.getElementById(
+          'diagnostics-content',
+        ).innerHTML = makeReportHTML(report);
+      },
+    );
+  });
+}
+
+document
+  .getElementById('diagnostics-refresh')
+  .addEventListener('click', function () {
+    showDiagnostics();
+  });
+
+document
+  .getElementById('diagnostics-copy')
+  .addEventListener('click', function () {
+    if (displayedReport) {
+      copyToClipboard(formatDiagnosticsReport(displayedReport));
+    }
+  });
@@ -0,0 +1,218 @@
+import {
+  formatBytes,
+  formatPercentage,
+  formatTime,
+  copyToClipboard,
+  escapeHtml,
+} from '../Utils';
+import { Storage } from '../Storage';
+import { MeetingHistory, MeetingRecord } from '../MeetingRecord';
+import { ClosedCaptions } from '../ClosedCaptions';
+import { getAgendaSections } from '../Agenda';
+import { getSeriesNames, SeriesNames } from '../Series';
+import { formatParticipants } from './participantsTable';
+import { formatAgenda } from './agenda';
+import { showSegments } from './tracking';
+import { openReport } from './report';
+import {
+  downloadCsv,
+  downloadJson,
+  downloadPlainText,
+  downloadSrt,
+  downloadWebVtt,
+} from '../Export';
+import {
+  bindTimeline,
+  highlightInTranscript,
+  renderTimeline,
+} from './timelineView';
+
+const storage = new Storage();
+let displayedMeeting: MeetingRecord = null;
+
+/**
+ * Returns the history entries, most recent meeting first.
+ * @param historyObject the migrated history
+ */
+function sortedMeetings(
+  historyObject: MeetingHistory,
+): [string, MeetingRecord][] {
+  return Object.keys(historyObject)
+    .map((key): [string, MeetingRecord] => [key, historyObject[key]])
+    .sort((a, b) => b[1].startedAt - a[1].startedAt);
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function makeHistoryListHTML(
+  meetings: [string, MeetingRecord][],
+  seriesNames: SeriesNames,
+): string {
+  if (!meetings.length) {
+    return '<p class="mt-3 text-gray-700">No meeting recorded yet.</p>';
+  }
+  return meetings.reduce(
+    (c, [key, meeting]) =>
+      (c += `<div data-history-key="${key}" class="bg-white p-2 flex flex-col rounded mt-1 border-b border-grey cursor-pointer hover:bg-gray-100">
+                <span>${formatDate(meeting.startedAt)}</span>
+                <div class="flex items-center justify-between text-gray-700">
+                  <span>${escapeHtml(
+                    seriesNames[meeting.meetingId] || meeting.meetingId,
+                  )}</span>
+                  <span>${formatTime(meeting.elapsed)}</span>
+                </div>
+              </div>`),
+    '',
+  );
+}
+
+function showMeetingDetail(meeting: MeetingRecord): void {
+  displayedMeeting = meeting;
+  document.getElementById('history-list').classList.add('hidden');
+  document.getElementById('history-detail').classList.remove('hidden');
+
+  document.getElementById('history-detail-title').innerHTML = `${
+    meeting.meetingId
+  } - ${formatDate(meeting.startedAt)}`;
+  document.getElementById('history-detail-duration').innerHTML = formatTime(
+    meeting.elapsed,
+  );
+  document.getElementById(
+    'history-detail-table',
+  ).innerHTML = formatParticipants(meeting);
+  document.getElementById('history-detail-agenda').innerHTML = formatAgenda(
+    meeting.agenda,
+  );
+  const segmentsElement = document.getElementById('history-detail-segments');
+  segmentsElement.innerHTML = '';
+  showSegments(segmentsElement, meeting);
+
+  renderTimeline(document.getElementById('history-detail-timeline'), meeting);
+
+  const captions = new ClosedCaptions(meeting.closedCaptions);
+  (<HTMLTextAreaElement>(
+    document.getElementById('history-detail-transcript')
+  )).value = captions.toMarkdown(getAgendaSections(meeting.agenda));
+}
+
+function showStorageUsed(): void {
+  storage.getBytesInUse(function (bytesInUse, quota) {
+    document.getElementById('storage-used').innerHTML = `${formatBytes(
+      bytesInUse,
+    )} of ${formatBytes(quota)} (${formatPercentage(bytesInUse, quota)})`;
+  });
+}
+
+function showMeetingList(): void {
+  document.getElementById('history-detail').classList.add('hidden');
+  document.getElementById('history-list').classList.remove('hidden');
+}
+
+/**
+ * Loads the meetings saved in the storage and displays them as a list.
+ * Clicking a meeting opens its participants table and transcript.
+ * @param onLoaded called with the history once the list is displayed
+ */
+export function showHistory(
+  onLoaded?: (historyObject: MeetingHistory) => void,
+): void {
+  storage.getHistory(function (historyObject) {
+    getSeriesNames(function (seriesNames) {
+      const meetings = sortedMeetings(historyObject);
+      const listElement = document.getElementById('history-list');
+      listElement.innerHTML = makeHistoryListHTML(meetings, seriesNames);
+      listElement
+        .querySelectorAll('[data-history-key]')
+        .forEach((element: HTMLElement) => {
+          element.addEventListener('click', function () {
+            const meeting = historyObject[element.dataset.historyKey];
+            if (meeting) showMeetingDetail(meeting);
+          });
+        });
+      showMeetingList();
+      if (onLoaded) onLoaded(historyObject);
+    });
+  });
+  showStorageUsed();
+}
+
+/**
+ * Opens the given meeting of the history, and if given, selects one of its captions
+ * in the transcript.
+ * @param meetingKey
+ * @param captionIndex
+ */
+export function openMeeting(meetingKey: string, captionIndex?: number): void {
+  showHistory(function (historyObject) {
+    const meeting = historyObject[meetingKey];
+    if (!meeting) return;
+    showMeetingDetail(meeting);
+    if (captionIndex !== undefined) {
+      highlightInTranscript(
+        <HTMLTextAreaElement>(
+          document.getElementById('history-detail-transcript')
+        ),
+        meeting,
+        captionIndex,
+      );
+    }
+  });
+}
+
+document.getElementById('history-back').addEventListener('click', function () {
+  showMeetingList();
+});
+
+document
+  .getElementById('history-detail-copy')
+  .addEventListener('click', function () {
+    copyToClipboard(
+      (<HTMLTextAreaElement>(
+        document.getElementById('history-detail-transcript')
+      )).value,
+    );
+  });
+
+document
+  .getElementById('history-export-csv')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadCsv(displayedMeeting);
+  });
+
+document
+  .getElementById('history-export-json')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadJson(displayedMeeting);
+  });
+
+document
+  .getElementById('history-export-srt')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadSrt(displayedMeeting);
+  });
+
+document
+  .getElementById('history-export-vtt')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadWebVtt(displayedMeeting);
+  });
+
+document
+  .getElementById('history-export-txt')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadPlainText(displayedMeeting);
+  });
+
+document
+  .getElementById('history-report')
+  .addEventListener('click', function () {
+    if (displayedMeeting) openReport(displayedMeeting);
+  });
+
+bindTimeline(
+  document.getElementById('history-detail-timeline'),
+  <HTMLTextAreaElement>document.getElementById('history-detail-transcript'),
+  () => displayedMeeting,
+);
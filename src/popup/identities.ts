@@ -0,0 +1,90 @@
+import {
+  MeetingRecord,
+  ParticipantRecord,
+  ParticipantRejoinRecord,
+} from '../MeetingRecord';
+import { escapeHtml } from '../Utils';
+import { sendToMeetTab } from './meetTab';
+
+let displayedSignature = '';
+
+function makeOptionsHTML(participants: ParticipantRecord[]): string {
+  return participants
+    .map(
+      (p) =>
+        `<option value="${escapeHtml(p.id)}">${escapeHtml(p.name)}</option>`,
+    )
+    .join('');
+}
+
+function makeRejoinHTML(
+  p: ParticipantRecord,
+  rejoin: ParticipantRejoinRecord,
+): string {
+  const what = rejoin.manual ? `merged ${escapeHtml(rejoin.name)}` : 'rejoined';
+  const when = new Date(rejoin.at).toLocaleTimeString();
+  return `<div class="flex justify-between items-center">
+            <span>${escapeHtml(p.name)}: ${what} at ${when}</span>
+            <button data-split-id="${escapeHtml(p.id)}"
+              data-split-initial-id="${escapeHtml(rejoin.initialId)}"
+              title="Count this box as someone else again">Split</button>
+          </div>`;
+}
+
+function makeRejoinsHTML(p: ParticipantRecord): string {
+  return p.rejoins.map((rejoin) => makeRejoinHTML(p, rejoin)).join('');
+}
+
+/**
+ * Displays the rejoins of the live meeting's participants, and the controls
+ * to merge two of them or split a merged box. Only refreshed when they
+ * change, to keep the selection.
+ * @param meeting
+ */
+export function showIdentities(meeting: MeetingRecord): void {
+  const participants = meeting.participants.filter((p) => p.id);
+  const signature = JSON.stringify(
+    participants.map((p) => [p.id, p.name, p.rejoins.length]),
+  );
+  if (signature === displayedSignature) return;
+  displayedSignature = signature;
+
+  const container = document.getElementById('identities');
+  if (participants.length < 2 && !participants.some((p) => p.rejoins.length)) {
+    container.innerHTML = '';
+    return;
+  }
+  const options = makeOptionsHTML(participants);
+  container.innerHTML = `<div class="mt-2">Same person?</div>
+    <div class="flex items-center" style="font-size: x-small">
+      <select id="merge-from" class="w-2/5 rounded">${options}</select>
+      <span class="mx-1">into</span>
+      <select id="merge-into" class="w-2/5 rounded">${options}</select>
+      <button id="merge-participants" class="ml-1" title="Count the first participant's time as the second's">Merge</button>
+    </div>
+    <div class="text-gray-700" style="font-size: x-small">${participants
+      .map(makeRejoinsHTML)
+      .join('')}</div>`;
+}
+
+document
+  .getElementById('identities')
+  .addEventListener('click', function (event) {
+    const target = <HTMLElement>event.target;
+    if (target.id === 'merge-participants') {
+      const from = (<HTMLSelectElement>document.getElementById('merge-from'))
+        .value;
+      const into = (<HTMLSelectElement>document.getElementById('merge-into'))
+        .value;
+      if (from && into && from !== into) {
+        sendToMeetTab({ mergeParticipants: { into, from } });
+      }
+    } else if (target.dataset.splitId) {
+      sendToMeetTab({
+        splitParticipant: {
+          id: target.dataset.splitId,
+          initialId: target.dataset.splitInitialId,
+        },
+      });
+    }
+  });
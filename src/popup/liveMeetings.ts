@@ -0,0 +1,128 @@
+import { LiveMeeting } from '../Storage';
+import { LIVE_PORT_NAME, LiveUpdate } from '../LiveSync';
+import { escapeHtml } from '../Utils';
+import { selectMeetTab } from './meetTab';
+
+let selectedMeetingKey: string = null; // picked in the list
+let activeTabId: number = null;
+let port: chrome.runtime.Port = null;
+let portTabId: number = null;
+
+chrome.tabs.query({ active: true, currentWindow: true }, function (tabs) {
+  if (tabs[0]) activeTabId = tabs[0].id;
+});
+
+/**
+ * Returns the live meeting to display: the one picked in the list, else the
+ * one of the active tab, else the latest started. The popup talks to its
+ * tab from then on.
+ * @param liveMeetings see Storage.getLiveMeetings
+ */
+export function selectLiveMeeting(
+  liveMeetings: LiveMeeting[],
+): LiveMeeting | null {
+  const live =
+    liveMeetings.find((m) => m.meetingKey === selectedMeetingKey) ||
+    liveMeetings.find((m) => m.tabId !== null && m.tabId === activeTabId) ||
+    liveMeetings[0] ||
+    null;
+  selectMeetTab(live ? live.tabId : null);
+  return live;
+}
+
+function formatLiveMeeting(live: LiveMeeting): string {
+  const startedAt = new Date(live.record.startedAt).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  return `${live.record.meetingId}, since ${startedAt}${
+    live.record.endedAt ? ' (ended)' : ''
+  }${live.tabId === activeTabId ? ' - this tab' : ''}`;
+}
+
+/**
+ * Lists the live meetings to pick from, when there are several.
+ * @param liveMeetings
+ * @param selected the one displayed
+ */
+export function showLiveMeetingPicker(
+  liveMeetings: LiveMeeting[],
+  selected: LiveMeeting,
+): void {
+  const picker = <HTMLSelectElement>document.getElementById('live-meeting');
+  picker.classList.toggle('hidden', liveMeetings.length < 2);
+  // Rebuilt only when the list changes, not to close it under the mouse
+  const options = liveMeetings
+    .map(
+      (live) =>
+        `<option value="${escapeHtml(live.meetingKey)}" data-tab-id="${
+          live.tabId === null ? '' : live.tabId
+        }">${escapeHtml(formatLiveMeeting(live))}</option>`,
+    )
+    .join('');
+  if (picker.dataset.options !== options) {
+    picker.innerHTML = options;
+    picker.dataset.options = options;
+  }
+  picker.value = selected.meetingKey;
+}
+
+/**
+ * @param onPicked called once another live meeting is picked
+ */
+export function bindLiveMeetingPicker(onPicked: () => void): void {
+  document
+    .getElementById('live-meeting')
+    .addEventListener('change', function () {
+      const option = (<HTMLSelectElement>this).selectedOptions[0];
+      selectedMeetingKey = option.value;
+      selectMeetTab(option.dataset.tabId ? Number(option.dataset.tabId) : null);
+      onPicked();
+    });
+}
+
+/**
+ * @param tabId
+ * @returns whether the popup gets the updates of the tab
+ */
+export function isConnectedTo(tabId: number): boolean {
+  return port !== null && portTabId === tabId;
+}
+
+/**
+ * Stops listening to the updates of the tab, e.g. when the meeting displayed
+ * is not in it.
+ */
+export function disconnectLiveTab(): void {
+  if (port) port.disconnect();
+  port = null;
+  portTabId = null;
+}
+
+/**
+ * Listens to the updates pushed by the content script of the tab, instead of
+ * the previous one's. The first update holds all of the meeting.
+ * @param tabId
+ * @param onUpdate
+ * @param onDisconnect called when the tab is closed or reloaded
+ */
+export function connectToLiveTab(
+  tabId: number,
+  onUpdate: (update: LiveUpdate) => void,
+  onDisconnect: () => void,
+): void {
+  disconnectLiveTab();
+  port = chrome.tabs.connect(tabId, { name: LIVE_PORT_NAME });
+  portTabId = tabId;
+  const connectedPort = port;
+  port.onMessage.addListener(onUpdate);
+  port.onDisconnect.addListener(function () {
+    if (chrome.runtime.lastError) {
+      // No content script answered in the tab, nothing to report
+    }
+    if (port !== connectedPort) return; // Another tab was picked since
+    port = null;
+    portTabId = null;
+    onDisconnect();
+  });
+}
@@ -0,0 +1,46 @@
+let selectedTabId: number | null = null;
+
+/**
+ * Sends the next messages to the given tab rather than the active one, e.g.
+ * the tab of the live meeting picked in the popup.
+ * @param tabId null for the active tab
+ */
+export function selectMeetTab(tabId: number | null): void {
+  selectedTabId = tabId;
+}
+
+function sendToTab(
+  tabId: number,
+  message: unknown,
+  callback?: (response: unknown) => void,
+): void {
+  chrome.tabs.sendMessage(tabId, message, function (response) {
+    if (chrome.runtime.lastError) response = null;
+    if (callback) callback(response === undefined ? null : response);
+  });
+}
+
+/**
+ * Sends a message to the content script of the selected Meet tab, or of the
+ * current one.
+ * @param message
+ * @param callback called with the response, or null if the tab isn't a
+ * meeting or didn't answer
+ */
+export function sendToMeetTab(
+  message: unknown,
+  callback?: (response: unknown) => void,
+): void {
+  if (selectedTabId !== null) {
+    sendToTab(selectedTabId, message, callback);
+    return;
+  }
+  chrome.tabs.query({ active: true, currentWindow: true }, function (tabs) {
+    const tab = tabs[0];
+    if (!tab || !tab.url || !tab.url.startsWith('https://meet.google.com/')) {
+      if (callback) callback(null);
+      return;
+    }
+    sendToTab(tab.id, message, callback);
+  });
+}
@@ -0,0 +1,61 @@
+import { escapeHtml, formatPercentage, formatTime } from '../Utils';
+import {
+  getTotalSpokenTime,
+  MeetingRecord,
+  ParticipantRecord,
+} from '../MeetingRecord';
+import {
+  formatInterruptionStats,
+  formatMeasurement,
+  formatTimeSinceLastSpoke,
+  formatTurnStats,
+} from '../ParticipantStats';
+
+function makeRowHTML(
+  o: ParticipantRecord,
+  totalSpokenTime: number,
+  now: number,
+): string {
+  const speakingTime = formatTime(o.totalSpeakingTime);
+  const percentage = formatPercentage(o.totalSpeakingTime, totalSpokenTime);
+  const turnStats = formatTurnStats(o);
+  const interruptionStats = formatInterruptionStats(o);
+  const lastSpoke = formatTimeSinceLastSpoke(o, now);
+  const measurement = formatMeasurement(o);
+  const measurementColor = o.estimatedSpeakingTime
+    ? 'text-yellow-700'
+    : 'text-gray-600';
+  return `<div class="bg-white p-2 flex items-center rounded mt-1 border-b border-grey cursor-pointer hover:bg-gray-100">
+            <img src="${escapeHtml(
+              o.profileImageUrl,
+            )}" class="rounded-full mr-2" width="24px" height="24px" />
+            <div class="flex flex-col w-full">
+              <div class="flex items-center justify-between">
+                <span>${escapeHtml(o.name)}</span>
+                <span class="${measurementColor}" style="font-size: xx-small">${measurement}</span>
+              </div>
+              <div class="flex items-center justify-between">
+                <span>${speakingTime}</span>
+                <span>${percentage}</span>
+              </div>
+              <span class="text-gray-600" style="font-size: xx-small">${turnStats}</span>
+              <span class="text-gray-600" style="font-size: xx-small">${interruptionStats}, last spoke ${lastSpoke}</span>
+            </div>
+          </div>`;
+}
+
+function makeTableHTML(
+  participants: ParticipantRecord[],
+  totalSpokenTime: number,
+  now: number,
+) {
+  return participants.map((o) => makeRowHTML(o, totalSpokenTime, now)).join('');
+}
+
+export function formatParticipants(meeting: MeetingRecord): string {
+  return makeTableHTML(
+    meeting.participants,
+    getTotalSpokenTime(meeting),
+    meeting.startedAt + meeting.elapsed,
+  );
+}
@@ -1,66 +1,224 @@
 import { formatTime } from '../Utils';
-import { MeetingInformation, Storage } from '../Storage';
+import { Storage } from '../Storage';
+import { MeetingRecord } from '../MeetingRecord';
 import { ClosedCaptions } from '../ClosedCaptions';
+import { getAgendaSections } from '../Agenda';
 import { copyToClipboard } from '../Utils';
+import { formatParticipants } from './participantsTable';
+import { openMeeting, showHistory } from './history';
+import { showSearch } from './search';
+import {
+  downloadCsv,
+  downloadJson,
+  downloadPlainText,
+  downloadSrt,
+  downloadWebVtt,
+} from '../Export';
+import { bindTimeline, renderTimeline } from './timelineView';
+import { loadSettings, watchSettings } from '../Settings';
+import { showDiagnostics } from './diagnostics';
+import { showIdentities } from './identities';
+import { renderAgenda, showAgenda } from './agenda';
+import { renderTracking, showSegments, showTracking } from './tracking';
+import { openReport } from './report';
+import {
+  bindLiveMeetingPicker,
+  connectToLiveTab,
+  disconnectLiveTab,
+  isConnectedTo,
+  selectLiveMeeting,
+  showLiveMeetingPicker,
+} from './liveMeetings';
+import { applyLiveUpdate, LiveUpdate } from '../LiveSync';
+import { sendToMeetTab } from './meetTab';
 const storage = new Storage();
+let displayedMeeting: MeetingRecord = null;
 
-const updateView = function () {
-  storage.getCurrent(function (currentMeeting: MeetingInformation) {
-    document.querySelector('#table').innerHTML = formatParticipants(
-      currentMeeting.participants,
+/**
+ * Displays the live meeting.
+ * @param meeting
+ * @param withTranscript false to keep the transcript displayed, which can be
+ * long, when it didn't change
+ */
+function showMeeting(meeting: MeetingRecord, withTranscript: boolean): void {
+  displayedMeeting = meeting;
+  document.querySelector('#table').innerHTML = formatParticipants(meeting);
+  document.querySelector('#totalTime').innerHTML = formatTime(meeting.elapsed);
+  showIdentities(meeting);
+  showSegments(document.getElementById('segments'), meeting);
+  renderTimeline(document.getElementById('timeline'), meeting);
+  if (withTranscript) {
+    const captions = new ClosedCaptions(meeting.closedCaptions);
+    (<HTMLTextAreaElement>(
+      document.getElementById('transcript-frh')
+    )).value = captions.toMarkdown(getAgendaSections(meeting.agenda));
+  }
+}
+
+function onLiveUpdate(update: LiveUpdate): void {
+  const sectionCount = displayedMeeting
+    ? getAgendaSections(displayedMeeting.agenda).length
+    : 0;
+  showMeeting(
+    applyLiveUpdate(displayedMeeting, update),
+    !!update.captions ||
+      getAgendaSections(update.meeting.agenda).length !== sectionCount,
+  );
+  renderAgenda(update.meeting.agenda);
+  renderTracking(update.tracking);
+}
+
+/**
+ * Displays the live meeting picked, or of the active tab, and listens to the
+ * updates of its tab. The record saved is displayed until the tab answers,
+ * or if it's gone.
+ * @param connect false not to connect to the tab again, e.g. once it
+ * disconnected
+ */
+function showLiveMeetings(connect = true): void {
+  storage.getLiveMeetings(function (liveMeetings) {
+    const live = selectLiveMeeting(liveMeetings);
+    if (!live) return;
+    showLiveMeetingPicker(liveMeetings, live);
+    if (live.tabId !== null && isConnectedTo(live.tabId)) return;
+    // The meeting is not in the tab connected to, if any
+    disconnectLiveTab();
+    showMeeting(live.record, true);
+    if (connect && live.tabId !== null) {
+      connectToLiveTab(live.tabId, onLiveUpdate, () => showLiveMeetings(false));
+    }
+  });
+}
+
+loadSettings(() => {
+  showLiveMeetings();
+  // Before the meeting starts, the agenda can be edited already
+  showAgenda();
+  showTracking();
+});
+watchSettings();
+
+chrome.storage.onChanged.addListener(function (changes, areaName) {
+  if (areaName !== 'local') return;
+  const keys = Object.keys(changes);
+  // A meeting started or ended in a tab
+  if (keys.some((key) => key.startsWith(storage.liveTabKeyPrefix))) {
+    showLiveMeetings();
+  }
+});
+
+bindLiveMeetingPicker(function () {
+  showLiveMeetings();
+  showAgenda();
+  showTracking();
+});
+
+document
+  .getElementById('button-copy-text-of-chat')
+  .addEventListener('click', function () {
+    copyToClipboard(
+      (<HTMLTextAreaElement>document.getElementById('transcript-frh')).value,
     );
-    document.querySelector('#totalTime').innerHTML = formatTime(
-      currentMeeting.elapsed,
+  });
+
+document
+  .getElementById('button-cut-text-of-chat')
+  .addEventListener('click', function () {
+    copyToClipboard(
+      (<HTMLTextAreaElement>document.getElementById('transcript-frh')).value,
     );
+    // The tab pushes the emptied transcript back
+    sendToMeetTab({ clearCaptions: true });
+  });
 
-    // Update the transcript
-    const captions = new ClosedCaptions(currentMeeting.closedCaptions);
-    const dialogMD = captions.toMarkdown();
-    // const captionHTML = `<textarea id="textOfChat" class="scrollabletextbox" readonly="readonly" name="note" rows="8" style="width: 100%; font-size: xx-small;">${dialogMD}</textarea><br/>`;
-    (<HTMLTextAreaElement>(
-      document.getElementById('transcript-frh')
-    )).value = dialogMD;
+document.getElementById('open-options').addEventListener('click', function () {
+  chrome.runtime.openOptionsPage();
+});
+
+document
+  .getElementById('open-dashboard')
+  .addEventListener('click', function () {
+    chrome.tabs.create({ url: chrome.runtime.getURL('dashboard.html') });
+  });
+
+document
+  .getElementById('create-meeting')
+  .addEventListener('click', function () {
+    chrome.runtime.sendMessage({ createMeeting: true });
+  });
+
+document.getElementById('button-report').addEventListener('click', function () {
+  if (displayedMeeting) openReport(displayedMeeting);
+});
+
+document
+  .getElementById('button-export-csv')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadCsv(displayedMeeting);
+  });
+
+document
+  .getElementById('button-export-json')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadJson(displayedMeeting);
+  });
+
+document
+  .getElementById('button-export-srt')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadSrt(displayedMeeting);
+  });
+
+document
+  .getElementById('button-export-vtt')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadWebVtt(displayedMeeting);
+  });
+
+document
+  .getElementById('button-export-txt')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadPlainText(displayedMeeting);
+  });
+
+bindTimeline(
+  document.getElementById('timeline'),
+  <HTMLTextAreaElement>document.getElementById('transcript-frh'),
+  () => displayedMeeting,
+);
+
+function selectTab(tabName: string): void {
+  ['live', 'history', 'search', 'diagnostics'].forEach((name) => {
+    const isSelected = name === tabName;
     document
-      .getElementById('button-copy-text-of-chat')
-      .addEventListener('click', function () {
-        copyToClipboard(dialogMD);
-      });
+      .getElementById(`${name}-view`)
+      .classList.toggle('hidden', !isSelected);
     document
-      .getElementById('button-cut-text-of-chat')
-      .addEventListener('click', function () {
-        copyToClipboard(dialogMD);
-        currentMeeting.closedCaptions.clear();
-      });
+      .getElementById(`tab-${name}`)
+      .classList.toggle('font-bold', isSelected);
   });
-};
-
-setInterval(function () {
-  updateView();
-}, 1500);
-
-function makeTableHTML(ar) {
-  return `${ar.reduce(
-    (c, o) =>
-      (c += `<div class="bg-white p-2 flex items-center rounded mt-1 border-b border-grey cursor-pointer hover:bg-gray-100">
-                                        <img src="${o[3]}" class="rounded-full mr-2" width="24px" height="24px" />
-                                        <div class="flex flex-col w-full">
-                                          <span>${o[0]}</span>
-                                          <div class="flex items-center justify-between">
-                                            <span>${o[1]}</span>
-                                            <span>${o[2]}</span>
-                                          </div>
-                                        </div>
-                                     </div>`),
-    '',
-  )}`;
 }
 
-function formatParticipants(participants): string {
-  return makeTableHTML(participants);
-}
+document.getElementById('tab-live').addEventListener('click', function () {
+  selectTab('live');
+});
+
+document.getElementById('tab-history').addEventListener('click', function () {
+  selectTab('history');
+  showHistory();
+});
+
+document.getElementById('tab-search').addEventListener('click', function () {
+  selectTab('search');
+  showSearch(function (match) {
+    selectTab('history');
+    openMeeting(match.meetingKey, match.captionIndex);
+  });
+});
 
 document
-  .getElementById('create-meeting')
+  .getElementById('tab-diagnostics')
   .addEventListener('click', function () {
-    chrome.runtime.sendMessage({ createMeeting: true });
+    selectTab('diagnostics');
+    showDiagnostics();
   });
@@ -0,0 +1,14 @@
+import { getMeetingKey, MeetingRecord } from '../MeetingRecord';
+
+/**
+ * Opens the summary report of the meeting in a new tab. The meeting is read
+ * from the history, where the ongoing one is saved too.
+ * @param meeting
+ */
+export function openReport(meeting: MeetingRecord): void {
+  chrome.tabs.create({
+    url: chrome.runtime.getURL(
+      `report.html?meeting=${encodeURIComponent(getMeetingKey(meeting))}`,
+    ),
+  });
+}
@@ -0,0 +1,157 @@
+import { Storage } from '../Storage';
+import { ClosedCaptionEventRecord, MeetingHistory } from '../MeetingRecord';
+import {
+  getSearchTerms,
+  getSpeakers,
+  searchTranscripts,
+  TranscriptMatch,
+  TranscriptSearchQuery,
+} from '../Search';
+import { escapeHtml } from '../Utils';
+
+const MAX_DISPLAYED_MATCHES = 100;
+
+const storage = new Storage();
+let history: MeetingHistory = {};
+let displayedMatches: TranscriptMatch[] = [];
+let onOpenMatch: (match: TranscriptMatch) => void = null;
+
+/**
+ * Escapes the text and wraps the searched terms in <mark> tags.
+ */
+function highlightTerms(text: string, terms: string[]): string {
+  if (!terms.length) return escapeHtml(text);
+  const pattern = new RegExp(
+    `(${terms
+      .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|')})`,
+    'gi',
+  );
+  return text
+    .split(pattern)
+    .map((part, idx) =>
+      idx % 2 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part),
+    )
+    .join('');
+}
+
+function makeContextLineHTML(caption: ClosedCaptionEventRecord): string {
+  return `<div class="text-gray-600">${escapeHtml(caption.who)}: ${escapeHtml(
+    caption.what,
+  )}</div>`;
+}
+
+function makeMatchHTML(
+  match: TranscriptMatch,
+  idx: number,
+  terms: string[],
+): string {
+  const date = new Date(match.meeting.startedAt).toLocaleString();
+  const captionHTML = `<div><b>${escapeHtml(
+    match.caption.who,
+  )}</b>: ${highlightTerms(match.caption.what, terms)}</div>`;
+  return (
+    `<div data-match-index="${idx}" class="bg-white p-2 rounded mt-1 cursor-pointer hover:bg-gray-100" style="font-size: x-small" title="Open the transcript of this meeting">` +
+    `<div class="flex justify-between text-gray-700"><span>${date}</span><span>${escapeHtml(
+      match.meeting.meetingId,
+    )}</span></div>` +
+    match.before.map(makeContextLineHTML).join('') +
+    captionHTML +
+    match.after.map(makeContextLineHTML).join('') +
+    '</div>'
+  );
+}
+
+function makeResultsHTML(matches: TranscriptMatch[], terms: string[]): string {
+  if (!matches.length) {
+    return '<p class="mt-1 text-gray-700">No matching line.</p>';
+  }
+  const count =
+    matches.length > MAX_DISPLAYED_MATCHES
+      ? `${MAX_DISPLAYED_MATCHES} of ${matches.length} matching lines`
+      : `${matches.length} matching line${matches.length > 1 ? 's' : ''}`;
+  return (
+    `<p class="mt-1 text-gray-700">${count}</p>` +
+    matches
+      .slice(0, MAX_DISPLAYED_MATCHES)
+      .map((match, idx) => makeMatchHTML(match, idx, terms))
+      .join('')
+  );
+}
+
+/**
+ * Parses the value of a date input as the start or the end of that day.
+ */
+function parseDateInput(id: string, endOfDay: boolean): number | null {
+  const value = (<HTMLInputElement>document.getElementById(id)).value;
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime();
+}
+
+function getQuery(): TranscriptSearchQuery {
+  return {
+    text: (<HTMLInputElement>document.getElementById('search-text')).value,
+    speaker: (<HTMLSelectElement>document.getElementById('search-speaker'))
+      .value,
+    from: parseDateInput('search-from', false),
+    to: parseDateInput('search-to', true),
+  };
+}
+
+function showSpeakers(): void {
+  const select = <HTMLSelectElement>document.getElementById('search-speaker');
+  const selected = select.value;
+  select.innerHTML =
+    '<option value="">Any speaker</option>' +
+    getSpeakers(history)
+      .map(
+        (speaker) =>
+          `<option value="${escapeHtml(speaker)}">${escapeHtml(
+            speaker,
+          )}</option>`,
+      )
+      .join('');
+  select.value = selected;
+}
+
+function runSearch(): void {
+  const query = getQuery();
+  displayedMatches = searchTranscripts(history, query);
+  document.getElementById('search-results').innerHTML = makeResultsHTML(
+    displayedMatches,
+    getSearchTerms(query.text),
+  );
+}
+
+/**
+ * Loads the saved meetings to search their transcripts.
+ * @param openMatch called when a result is clicked
+ */
+export function showSearch(openMatch: (match: TranscriptMatch) => void): void {
+  onOpenMatch = openMatch;
+  storage.getHistory(function (historyObject) {
+    history = historyObject;
+    showSpeakers();
+    (<HTMLInputElement>document.getElementById('search-text')).focus();
+  });
+}
+
+document
+  .getElementById('search-form')
+  .addEventListener('submit', function (event) {
+    event.preventDefault();
+    runSearch();
+  });
+
+document
+  .getElementById('search-results')
+  .addEventListener('click', function (event) {
+    const result = (<Element>event.target).closest('[data-match-index]');
+    if (!result || !onOpenMatch) return;
+    const match =
+      displayedMatches[Number(result.getAttribute('data-match-index'))];
+    if (match) onOpenMatch(match);
+  });
@@ -0,0 +1,91 @@
+import { MeetingRecord } from '../MeetingRecord';
+import { ClosedCaptions } from '../ClosedCaptions';
+import { getAgendaSections } from '../Agenda';
+import {
+  findCaptionIndex,
+  getSpeakingTurns,
+  renderTimelineSVG,
+} from '../Timeline';
+
+const LEGEND_HTML =
+  '<div class="flex justify-between text-gray-700" style="font-size: xx-small">' +
+  '<span style="color: #60a5fa">&#9632; turn</span>' +
+  '<span style="color: #f59e0b">&#9632; monologue</span>' +
+  '<span style="color: #ef4444">&#9632; overlap</span>' +
+  '</div>';
+
+/**
+ * Displays the speaking turns timeline of the meeting in the container.
+ */
+export function renderTimeline(
+  container: HTMLElement,
+  record: MeetingRecord,
+): void {
+  if (!getSpeakingTurns(record).length) {
+    container.innerHTML =
+      '<p class="mt-1 text-gray-700" style="font-size: xx-small">No speaking events recorded for this meeting.</p>';
+    return;
+  }
+  container.innerHTML = renderTimelineSVG(record) + LEGEND_HTML;
+}
+
+/**
+ * Selects one of the captions in the transcript of the meeting and scrolls to
+ * it, the same words said earlier aside.
+ * @param transcript displaying the Markdown transcript of the record
+ * @param record
+ * @param captionIndex
+ */
+export function highlightInTranscript(
+  transcript: HTMLTextAreaElement,
+  record: MeetingRecord,
+  captionIndex: number,
+): void {
+  const caption = record.closedCaptions[captionIndex];
+  if (!caption) return;
+  const offsets: number[] = [];
+  new ClosedCaptions(record.closedCaptions).toMarkdown(
+    getAgendaSections(record.agenda),
+    offsets,
+  );
+  const start = offsets[captionIndex];
+  if (transcript.value.substr(start, caption.what.length) !== caption.what) {
+    return; // The transcript displayed is of another version of the meeting
+  }
+  transcript.focus();
+  transcript.setSelectionRange(start, start + caption.what.length);
+  const linesBefore = transcript.value.substring(0, start).split('\n').length;
+  const lineHeight =
+    transcript.scrollHeight / transcript.value.split('\n').length;
+  transcript.scrollTop = Math.max(linesBefore - 2, 0) * lineHeight;
+}
+
+/**
+ * Makes a click on a timeline bar jump to what was said during that turn.
+ * @param container the timeline container, whose content can be re-rendered
+ * @param transcript the textarea displaying the meeting's transcript
+ * @param getRecord returns the meeting currently displayed
+ */
+export function bindTimeline(
+  container: HTMLElement,
+  transcript: HTMLTextAreaElement,
+  getRecord: () => MeetingRecord,
+): void {
+  container.addEventListener('click', function (event) {
+    const bar = (<Element>event.target).closest('.timeline-turn');
+    const record = getRecord();
+    if (!bar || !record) return;
+
+    const participant =
+      record.participants[Number(bar.getAttribute('data-lane'))];
+    const captionIndex = findCaptionIndex(
+      record.closedCaptions,
+      participant ? participant.name : '',
+      Number(bar.getAttribute('data-start')),
+      Number(bar.getAttribute('data-end')),
+    );
+    if (captionIndex !== -1) {
+      highlightInTranscript(transcript, record, captionIndex);
+    }
+  });
+}
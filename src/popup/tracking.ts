@@ -0,0 +1,115 @@
+import { MeetingRecord, MeetingSegmentRecord } from '../MeetingRecord';
+import { TrackingChange, TrackingState } from '../Segments';
+import { escapeHtml, formatTime } from '../Utils';
+import { formatParticipants } from './participantsTable';
+import { sendToMeetTab } from './meetTab';
+
+function makeSegmentHTML(
+  meeting: MeetingRecord,
+  segment: MeetingSegmentRecord,
+): string {
+  const ongoing = segment.endedAt === null ? ', ongoing' : '';
+  return `<details class="mt-1">
+            <summary>${escapeHtml(segment.name)} (${
+    formatTime(segment.elapsed) || '0s'
+  }${ongoing})</summary>
+            ${formatParticipants({
+              ...meeting,
+              startedAt: segment.startedAt,
+              elapsed: segment.elapsed,
+              participants: segment.participants,
+            })}
+          </details>`;
+}
+
+/**
+ * Displays the segments of the meeting, each with its own participants
+ * table, if the meeting was split in segments. The segments opened stay
+ * open when refreshed.
+ * @param container
+ * @param meeting
+ */
+export function showSegments(
+  container: HTMLElement,
+  meeting: MeetingRecord,
+): void {
+  const openIndexes = Array.from(container.querySelectorAll('details'))
+    .map((details, index) => (details.open ? index : -1))
+    .filter((index) => index !== -1);
+  container.innerHTML = meeting.segments.length
+    ? `<div class="mt-2">Segments:</div>${meeting.segments
+        .map((segment) => makeSegmentHTML(meeting, segment))
+        .join('')}`
+    : '';
+  const details = container.querySelectorAll('details');
+  openIndexes
+    .filter((index) => index < details.length)
+    .forEach((index) => (details[index].open = true));
+}
+
+/**
+ * Displays the state of the tracking, e.g. pushed by the content script.
+ * @param response null when the tab isn't a meeting
+ */
+export function renderTracking(response: unknown): void {
+  const state = <TrackingState>response;
+  const controls = document.getElementById('tracking');
+  // Only the content script of a started meeting can be controlled
+  controls.classList.toggle('hidden', !state || !state.started);
+  if (!state || !state.started) return;
+  document.getElementById('tracking-pause').textContent = state.paused
+    ? 'Resume'
+    : 'Pause';
+  const segment =
+    state.segmentCount > 1
+      ? `Segment ${state.segmentCount}${
+          state.segmentName ? `: ${escapeHtml(state.segmentName)}` : ''
+        }`
+      : '';
+  document.getElementById('tracking-status').innerHTML = [
+    state.paused ? '<b>Paused</b>' : '',
+    segment,
+  ]
+    .filter((text) => text)
+    .join(' - ');
+}
+
+function changeTracking(change: TrackingChange): void {
+  sendToMeetTab({ tracking: change }, renderTracking);
+}
+
+/**
+ * Displays the controls of the tracking of the meeting in the current tab.
+ */
+export function showTracking(): void {
+  changeTracking({});
+}
+
+document
+  .getElementById('tracking-pause')
+  .addEventListener('click', function (event) {
+    const isPaused = (<HTMLElement>event.target).textContent === 'Resume';
+    changeTracking(isPaused ? { resume: true } : { pause: true });
+  });
+
+document
+  .getElementById('tracking-segment')
+  .addEventListener('click', function () {
+    const nameInput = <HTMLInputElement>(
+      document.getElementById('tracking-segment-name')
+    );
+    changeTracking({ newSegment: nameInput.value.trim() });
+    nameInput.value = '';
+  });
+
+document
+  .getElementById('tracking-reset')
+  .addEventListener('click', function () {
+    if (
+      window.confirm(
+        'Reset all the counters and the transcript of this meeting?',
+      )
+    ) {
+      changeTracking({ reset: true });
+    }
+  });
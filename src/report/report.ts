@@ -0,0 +1,47 @@
+import { Storage } from '../Storage';
+import { MeetingRecord } from '../MeetingRecord';
+import { getSeriesNames } from '../Series';
+import { makeReportBodyHTML, REPORT_CSS } from '../Report';
+import { downloadReport } from '../Export';
+
+// The page is opened with the history key of the meeting, e.g.
+// report.html?meeting=abc-defg-hij%7C1636118400000
+const meetingKey = new URLSearchParams(window.location.search).get('meeting');
+
+let displayedMeeting: MeetingRecord = null;
+let displayedTitle = '';
+
+function showReport(meeting: MeetingRecord): void {
+  if (!meeting) {
+    document.getElementById('report').innerHTML =
+      '<p class="muted">This meeting is no longer in the history.</p>';
+    return;
+  }
+  getSeriesNames(function (seriesNames) {
+    displayedMeeting = meeting;
+    displayedTitle = seriesNames[meeting.meetingId] || meeting.meetingId;
+    document.title = `${displayedTitle} - Meeting report`;
+    document.getElementById('report').innerHTML = makeReportBodyHTML(
+      meeting,
+      displayedTitle,
+    );
+  });
+}
+
+const style = document.createElement('style');
+style.textContent = REPORT_CSS;
+document.head.appendChild(style);
+
+new Storage().getHistory(function (historyObject) {
+  showReport(historyObject[meetingKey]);
+});
+
+document.getElementById('report-print').addEventListener('click', function () {
+  window.print();
+});
+
+document
+  .getElementById('report-download')
+  .addEventListener('click', function () {
+    if (displayedMeeting) downloadReport(displayedMeeting, displayedTitle);
+  });
@@ -0,0 +1,91 @@
+import MeetingController from '../src/MeetingController';
+import { getMeetingKey, MeetingRecord } from '../src/MeetingRecord';
+import { chromeFake, resetChromeFake } from './chromeFake';
+import { advance, loadFixture, playScript, setSpeaking } from './harness';
+
+const ADA = 'spaces/abc/devices/1';
+const GRACE = 'spaces/abc/devices/2';
+
+describe('Agenda', () => {
+  let controller: MeetingController;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetChromeFake();
+    loadFixture('grid');
+    controller = new MeetingController();
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  function addItem(title: string, budget: number, personBudget = 0): void {
+    controller.changeAgenda({
+      add: { title, owner: '', budget, personBudget },
+    });
+  }
+
+  it('can be prepared before the meeting starts', () => {
+    addItem('Intro', 60000);
+    addItem('Roadmap', 60000);
+    const agenda = controller.changeAgenda({ remove: 0 });
+    expect(agenda.map((item) => item.title)).toEqual(['Roadmap']);
+    expect(agenda[0].startedAt).toBeNull();
+  });
+
+  it('splits the speaking time by item', async () => {
+    addItem('Intro', 60000);
+    addItem('Roadmap', 60000);
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 2000, run: () => controller.changeAgenda({ next: true }) },
+        { at: 5000, run: () => setSpeaking(ADA, false) },
+        { at: 5000, run: () => controller.changeAgenda({ next: true }) },
+        { at: 6000, run: () => setSpeaking(GRACE, true) },
+        { at: 8000, run: () => setSpeaking(GRACE, false) },
+      ],
+      9000,
+    );
+    const [intro, roadmap] = controller.agenda.toObject();
+    // Ada spoke before the agenda started: only the last 3s are counted
+    expect(intro.speakers).toEqual([
+      { id: ADA, name: 'Ada Lovelace', speakingTime: 3000 },
+    ]);
+    expect(intro.endedAt - intro.startedAt).toBe(3000);
+    expect(roadmap.speakers).toEqual([
+      { id: GRACE, name: 'Grace Hopper', speakingTime: 2000 },
+    ]);
+    expect(roadmap.endedAt).toBeNull();
+
+    const record = <MeetingRecord>(
+      chromeFake.storage.local._items()[`live|${getMeetingKey(controller)}`]
+    );
+    expect(record.agenda.map((item) => item.title)).toEqual([
+      'Intro',
+      'Roadmap',
+    ]);
+  });
+
+  it('warns when an item or a participant runs over budget', async () => {
+    addItem('Intro', 5000, 2000);
+    await advance(1000);
+    controller.changeAgenda({ next: true });
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 3000, run: () => setSpeaking(ADA, false) },
+      ],
+      7000,
+    );
+    expect(document.body.textContent).toContain(
+      'Ada Lovelace has spoken 3s on "Intro", over the 2s each.',
+    );
+    expect(document.body.textContent).toContain(
+      '"Intro" is over its 5s budget.',
+    );
+  });
+});
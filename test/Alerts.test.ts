@@ -0,0 +1,97 @@
+import { AlertRule, AlertRuleType, evaluateAlertRules } from '../src/Alerts';
+import { Participant } from '../src/Participant';
+import { loadFixture, removeParticipant } from './harness';
+
+const ADA = 'spaces/abc/devices/1';
+const GRACE = 'spaces/abc/devices/2';
+const MINUTE_MS = 60 * 1000;
+const now = new Date(2021, 10, 8, 14, 30).getTime();
+
+function rule(type: AlertRuleType, threshold: number): AlertRule {
+  return { type, threshold, banner: true, notification: false };
+}
+
+/**
+ * @param id the box of the participant in the fixture
+ * @param totalSpeakingTime
+ * @param lastSpokeAt
+ */
+function participant(
+  id: string,
+  totalSpeakingTime: number,
+  lastSpokeAt: number | null = null,
+): Participant {
+  const p = new Participant(id);
+  p.joinedAt = now - 30 * MINUTE_MS;
+  p.totalSpeakingTime = totalSpeakingTime;
+  p.lastSpokeAt = lastSpokeAt;
+  return p;
+}
+
+describe('evaluateAlertRules', () => {
+  beforeEach(() => loadFixture('grid'));
+
+  it('raises the speaking shares above the threshold once enough was said', () => {
+    const participants = [
+      participant(ADA, 8 * MINUTE_MS),
+      participant(GRACE, 2 * MINUTE_MS),
+    ];
+    const rules = [rule(AlertRuleType.SPEAKING_SHARE, 60)];
+    const alerts = evaluateAlertRules(rules, participants, MINUTE_MS, now);
+    expect(alerts.map((a) => a.message)).toEqual([
+      'Ada Lovelace has spoken 80% of the time so far.',
+    ]);
+    expect(alerts[0].key).toBe(`0|${ADA}`);
+    expect(
+      evaluateAlertRules(rules, participants, 20 * MINUTE_MS, now),
+    ).toEqual([]);
+  });
+
+  it('raises the silences longer than the threshold', () => {
+    const participants = [
+      participant(ADA, MINUTE_MS, now - 5 * MINUTE_MS),
+      participant(GRACE, 0),
+    ];
+    const alerts = evaluateAlertRules(
+      [rule(AlertRuleType.SILENCE, 10)],
+      participants,
+      0,
+      now,
+    );
+    expect(alerts.map((a) => a.message)).toEqual([
+      "Grace Hopper hasn't spoken for 30:00.",
+    ]);
+  });
+
+  it("doesn't count the silence of those who left", () => {
+    const participants = [participant(ADA, 0), participant(GRACE, 0)];
+    removeParticipant(GRACE);
+    const alerts = evaluateAlertRules(
+      [rule(AlertRuleType.SILENCE, 10)],
+      participants,
+      0,
+      now,
+    );
+    expect(alerts.map((a) => a.key)).toEqual([`0|${ADA}`]);
+  });
+
+  it("doesn't count the breaks as silence", () => {
+    const participants = [participant(ADA, 0)];
+    const rules = [rule(AlertRuleType.SILENCE, 10)];
+    // Tracking was paused for 25 of the 30 minutes since Ada joined
+    const getPausedTime = (from: number, to: number) =>
+      Math.min(to, now - MINUTE_MS) - Math.max(from, now - 26 * MINUTE_MS);
+    expect(
+      evaluateAlertRules(rules, participants, 0, now, getPausedTime),
+    ).toEqual([]);
+    expect(
+      evaluateAlertRules(
+        rules,
+        participants,
+        0,
+        now + 6 * MINUTE_MS,
+        getPausedTime,
+      ),
+    ).toHaveLength(1);
+  });
+});
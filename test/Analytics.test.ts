@@ -0,0 +1,105 @@
+import {
+  getBalanceScore,
+  getMonthlyAverages,
+  getPersonTrends,
+  getRecurringMeetings,
+  selectMeetings,
+  summarizeMeeting,
+} from '../src/Analytics';
+import {
+  getMeetingKey,
+  MeetingHistory,
+  MeetingRecord,
+  ParticipantRecord,
+} from '../src/MeetingRecord';
+import { meetingRecord, participantRecord as participant } from './records';
+
+function meeting(
+  meetingId: string,
+  startedAt: Date,
+  participants: ParticipantRecord[],
+): MeetingRecord {
+  return meetingRecord(meetingId, startedAt.getTime(), {
+    elapsed: 100000,
+    participants,
+  });
+}
+
+const standups = [
+  meeting('abc-defg-hij', new Date(2021, 9, 4), [
+    participant('Ada', 60000),
+    participant('Grace', 20000),
+  ]),
+  meeting('abc-defg-hij', new Date(2021, 10, 8), [
+    participant('Ada', 30000),
+    participant('Grace', 30000),
+  ]),
+];
+const review = meeting('klm-nopq-rst', new Date(2021, 10, 9), [
+  participant('Alan', 50000),
+]);
+const history: MeetingHistory = {};
+[...standups, review].forEach((record) => {
+  history[getMeetingKey(record)] = record;
+});
+
+describe('getBalanceScore', () => {
+  it('goes from 0 for a monologue to 1 for an even share', () => {
+    expect(getBalanceScore([10, 0, 0])).toBe(0);
+    expect(getBalanceScore([10, 10, 10])).toBeCloseTo(1);
+    expect(getBalanceScore([30, 10])).toBeGreaterThan(0);
+    expect(getBalanceScore([30, 10])).toBeLessThan(1);
+    expect(getBalanceScore([])).toBe(0);
+  });
+});
+
+describe('summarizeMeeting', () => {
+  it('compares the time spoken to the meeting length', () => {
+    expect(summarizeMeeting(standups[0])).toMatchObject({
+      spokenTime: 80000,
+      talkRatio: 0.8,
+    });
+  });
+});
+
+describe('selectMeetings', () => {
+  it('keeps the meetings of the period, oldest first', () => {
+    const from = new Date(2021, 10, 1).getTime();
+    expect(selectMeetings(history, from)).toEqual([standups[1], review]);
+    expect(selectMeetings(history, 0, 'abc-defg-hij')).toEqual(standups);
+  });
+});
+
+describe('getPersonTrends', () => {
+  it('follows the share of each person across meetings', () => {
+    const [ada, grace] = getPersonTrends(standups);
+    expect(ada.name).toBe('Ada');
+    expect(ada.points.map((p) => p.share)).toEqual([0.75, 0.5]);
+    expect(ada.averageShare).toBeCloseTo(0.625);
+    expect(grace.meetingCount).toBe(2);
+  });
+});
+
+describe('getRecurringMeetings', () => {
+  it('tells who speaks the most in each recurring meeting', () => {
+    const recurring = getRecurringMeetings([...standups, review]);
+    expect(recurring).toHaveLength(1);
+    expect(recurring[0]).toMatchObject({
+      meetingId: 'abc-defg-hij',
+      meetingCount: 2,
+      dominantSpeaker: 'Ada',
+    });
+    expect(recurring[0].dominantShare).toBeCloseTo(90000 / 140000);
+  });
+});
+
+describe('getMonthlyAverages', () => {
+  it('averages the meetings of each month', () => {
+    const months = getMonthlyAverages(
+      [...standups, review].map(summarizeMeeting),
+    );
+    expect(months.map((m) => m.meetingCount)).toEqual([1, 2]);
+    expect(months[1].averageTalkRatio).toBeCloseTo(0.55);
+    expect(months[1].averageBalance).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,194 @@
+import { ClosedCaptions } from '../src/ClosedCaptions';
+import { ClosedCaptionEventRecord } from '../src/MeetingRecord';
+import { advance, loadFixture, showCaptions } from './harness';
+import { captionRecord } from './records';
+
+describe('ClosedCaptions', () => {
+  let closedCaptions: ClosedCaptions;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    loadFixture('grid');
+    closedCaptions = new ClosedCaptions();
+    closedCaptions.startObserver();
+  });
+
+  afterEach(() => {
+    closedCaptions.stopObservers();
+    jest.useRealTimers();
+  });
+
+  it('merges the updates of the caption being spoken', async () => {
+    showCaptions([{ who: 'Ada', what: 'Hello' }]);
+    await advance(500);
+    showCaptions([{ who: 'Ada', what: 'Hello everyone' }]);
+    await advance(500);
+    expect(closedCaptions.eventsBuffer).toHaveLength(1);
+    expect(closedCaptions.eventsBuffer[0].what).toBe('Hello everyone');
+    expect(closedCaptions.events).toHaveLength(0);
+  });
+
+  it('finalizes the captions that scrolled away', async () => {
+    showCaptions([
+      { who: 'Ada', what: 'Hello everyone' },
+      { who: 'Grace', what: 'Hi Ada' },
+    ]);
+    await advance(500);
+    showCaptions([{ who: 'Grace', what: 'Hi Ada, how are you?' }]);
+    await advance(500);
+    expect(closedCaptions.events.map((e) => e.who)).toEqual(['Ada']);
+    expect(closedCaptions.eventsBuffer[0].what).toBe('Hi Ada, how are you?');
+    expect(closedCaptions.toMarkdown()).toContain('**Ada**: Hello everyone');
+  });
+
+  it('marks the brief interjections within a long sequence', async () => {
+    const start = 'So the plan for this quarter is to ship the new parser';
+    const sequence = `${start}, then to rewrite the storage layer`;
+    showCaptions([{ who: 'Ada', what: start }]);
+    await advance(20000);
+    showCaptions([{ who: 'Ada', what: sequence }]);
+    await advance(500);
+    showCaptions([
+      { who: 'Ada', what: sequence },
+      { who: 'Grace', what: 'Right' },
+    ]);
+    await advance(500);
+    showCaptions([
+      { who: 'Grace', what: 'Right' },
+      { who: 'Ada', what: 'and we will be done' },
+    ]);
+    await advance(500);
+    showCaptions([{ who: 'Ada', what: 'and we will be done' }]);
+    await advance(500);
+    showCaptions([]);
+    await advance(500);
+
+    const events = closedCaptions.events;
+    expect(events.map((e) => e.who)).toEqual(['Ada', 'Grace', 'Ada']);
+    expect(events[1].interjection).toBe(true);
+    expect(events[2].continuation).toBe(true);
+  });
+});
+
+const STARTED_AT = 1636119000000;
+
+function caption(
+  at: number,
+  howLong: number,
+  who: string,
+  what: string,
+): ClosedCaptionEventRecord {
+  return captionRecord(who, what, STARTED_AT + at, { howLong });
+}
+
+describe('transcript exports', () => {
+  const captions = new ClosedCaptions([
+    caption(1500, 2250, 'Ada Lovelace', 'Hello everyone'),
+    caption(3723004, 1000, 'Grace Hopper', 'Hi Ada'),
+  ]);
+
+  it('exports SRT cues relative to the start of the meeting', () => {
+    expect(captions.toSrt(STARTED_AT)).toBe(
+      '1\n' +
+        '00:00:01,500 --> 00:00:03,750\n' +
+        'Ada Lovelace: Hello everyone\n' +
+        '\n' +
+        '2\n' +
+        '01:02:03,004 --> 01:02:04,004\n' +
+        'Grace Hopper: Hi Ada\n',
+    );
+  });
+
+  it('exports WebVTT cues with the speakers as voices', () => {
+    expect(captions.toWebVtt(STARTED_AT)).toBe(
+      'WEBVTT\n' +
+        '\n' +
+        '00:00:01.500 --> 00:00:03.750\n' +
+        '<v Ada Lovelace>Hello everyone\n' +
+        '\n' +
+        '01:02:03.004 --> 01:02:04.004\n' +
+        '<v Grace Hopper>Hi Ada\n',
+    );
+  });
+
+  it('escapes the markup characters of the WebVTT cues', () => {
+    const markup = new ClosedCaptions([
+      caption(0, 1000, 'Ada <Team> & co', 'if a < b && b > c\nthen -->'),
+    ]);
+    expect(markup.toWebVtt(STARTED_AT)).toBe(
+      'WEBVTT\n' +
+        '\n' +
+        '00:00:00.000 --> 00:00:01.000\n' +
+        '<v Ada &lt;Team&gt; &amp; co>if a &lt; b &amp;&amp; b &gt; c then --&gt;\n',
+    );
+    expect(markup.toSrt(STARTED_AT)).toContain(
+      '\nAda <Team> & co: if a < b && b > c then -->\n',
+    );
+  });
+
+  it('exports plain text lines prefixed with the time and speaker', () => {
+    expect(captions.toPlainText(STARTED_AT)).toBe(
+      '[00:00:01] Ada Lovelace: Hello everyone\n' +
+        '[01:02:03] Grace Hopper: Hi Ada\n',
+    );
+  });
+
+  it('inserts the agenda sections before the captions said during them', () => {
+    const sections = [
+      { title: 'Intro', startedAt: STARTED_AT },
+      { title: 'Roadmap (Grace)', startedAt: STARTED_AT + 3600000 },
+    ];
+    expect(captions.toPlainText(STARTED_AT, sections)).toBe(
+      '== Intro ==\n' +
+        '[00:00:01] Ada Lovelace: Hello everyone\n' +
+        '\n== Roadmap (Grace) ==\n' +
+        '[01:02:03] Grace Hopper: Hi Ada\n',
+    );
+    expect(captions.toWebVtt(STARTED_AT, sections)).toContain(
+      'NOTE 01:00:00 Roadmap (Grace)\n\n01:02:03.004 --> 01:02:04.004',
+    );
+    expect(captions.toSrt(STARTED_AT, sections)).toContain(
+      '3\n01:00:00,000 --> 01:00:03,000\n[Roadmap (Grace)]\n',
+    );
+    expect(captions.toMarkdown(sections)).toMatch(
+      /^### Intro\n\*\*Ada Lovelace\*\*.*\n\n### Roadmap \(Grace\)\n\*\*Grace Hopper\*\*/,
+    );
+  });
+
+  it('keeps the section titles from breaking the subtitles', () => {
+    const sections = [
+      { title: 'Q&A -->\n\nWrap-up', startedAt: STARTED_AT + 3600000 },
+    ];
+    expect(captions.toWebVtt(STARTED_AT, sections)).toContain(
+      '\nNOTE 01:00:00 Q&A -> Wrap-up\n\n',
+    );
+    expect(captions.toSrt(STARTED_AT, sections)).toContain(
+      '\n[Q&A -> Wrap-up]\n',
+    );
+  });
+
+  it('starts the captions said before the meeting started at zero', () => {
+    const early = new ClosedCaptions([caption(-500, 1000, 'Ada', 'Hi')]);
+    expect(early.toPlainText(STARTED_AT)).toBe('[00:00:00] Ada: Hi\n');
+  });
+
+  it('locates each caption in the Markdown, the repeated ones too', () => {
+    const repeated = new ClosedCaptions([
+      caption(0, 1000, 'Ada', 'Yes'),
+      caption(1000, 1000, 'Grace', 'Yes'),
+      { ...caption(2000, 500, 'Ada', 'Yes'), interjection: true },
+      { ...caption(2500, 1000, 'Grace', 'Yes'), continuation: true },
+    ]);
+    const offsets: number[] = [];
+    const markdown = repeated.toMarkdown(
+      [{ title: 'Yes', startedAt: STARTED_AT + 1000 }],
+      offsets,
+    );
+    expect(offsets).toHaveLength(4);
+    expect(new Set(offsets).size).toBe(4);
+    offsets.forEach((offset) => {
+      expect(markdown.substr(offset, 3)).toBe('Yes');
+    });
+    expect(markdown.substring(offsets[1] - 11, offsets[1])).toBe('**Grace**: ');
+  });
+});
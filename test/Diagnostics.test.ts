@@ -0,0 +1,102 @@
+import MeetingController from '../src/MeetingController';
+import {
+  DiagnosticsReport,
+  formatDiagnosticsReport,
+  runDiagnostics,
+} from '../src/Diagnostics';
+import { jsControllerCodes } from '../src/constants';
+import { HookResolution } from '../src/ScrapingUtils';
+import { resetChromeFake } from './chromeFake';
+import { advance, loadFixture } from './harness';
+
+describe('runDiagnostics', () => {
+  let controller: MeetingController;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    resetChromeFake();
+    loadFixture('grid');
+    controller = new MeetingController();
+    await advance(1000);
+  });
+
+  afterEach(() => {
+    controller.endMeeting('test over');
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('finds all the hooks in a call', () => {
+    const report = runDiagnostics(controller);
+    expect(
+      report.hooks.filter((h) => h.resolution !== HookResolution.PRIMARY),
+    ).toEqual([]);
+    expect(report.hooks[0].detail).toBe('3 visible');
+    expect(report.startedAt).toBe(controller.startedAt);
+    expect(report.participants).toEqual([
+      { name: 'Ada Lovelace', observing: true, lastMutationAt: null },
+      { name: 'Grace Hopper', observing: true, lastMutationAt: null },
+      { name: 'Alan Turing', observing: true, lastMutationAt: null },
+    ]);
+  });
+
+  it('tells which hooks are missing, and how to check them', () => {
+    document
+      .querySelectorAll(
+        `div[jscontroller="${jsControllerCodes.closedCaptionsSection}"], div[jscontroller="${jsControllerCodes.microphoneBox}"]`,
+      )
+      .forEach((element) => element.remove());
+    const hooks = runDiagnostics(controller).hooks.filter(
+      (h) => h.resolution === HookResolution.MISSING,
+    );
+    expect(hooks.map((h) => [h.name, h.detail])).toEqual([
+      ['Microphone box', 'found in 0/3 visible participant boxes'],
+      ['Closed captions section', 'turn on the captions to check'],
+    ]);
+  });
+});
+
+describe('formatDiagnosticsReport', () => {
+  const generatedAt = new Date(Date.UTC(2021, 10, 8, 14, 30)).getTime();
+  const report: DiagnosticsReport = {
+    generatedAt,
+    extensionVersion: '1.2.3',
+    registryVersion: 1,
+    language: 'en',
+    meetingId: 'abc-defg-hij',
+    startedAt: generatedAt - 90000,
+    hooks: [
+      {
+        name: 'Clock',
+        resolution: HookResolution.MISSING,
+        code: 'ymEVmc',
+        detail: '',
+      },
+    ],
+    participants: [
+      { name: 'Ada Lovelace', observing: true, lastMutationAt: generatedAt },
+      { name: 'Grace Hopper', observing: false, lastMutationAt: null },
+    ],
+  };
+
+  it('leaves out the meeting and the names by default', () => {
+    expect(formatDiagnosticsReport(report).split('\n')).toEqual([
+      'Speaking time tracker diagnostics - 2021-11-08T14:30:00.000Z',
+      "Extension 1.2.3, selectors v1, language 'en'",
+      'Meeting <redacted>: tracking since 90s ago',
+      '',
+      'Hooks:',
+      '- Clock [ymEVmc]: missing',
+      '',
+      'Participants (2):',
+      '- Participant 1: observed, last mutation 0s ago',
+      '- Participant 2: not observed, last mutation never',
+    ]);
+  });
+
+  it('names the meeting and the participants when told to', () => {
+    const text = formatDiagnosticsReport(report, false);
+    expect(text).toContain('Meeting abc-defg-hij: tracking since 90s ago');
+    expect(text).toContain('- Grace Hopper: not observed');
+  });
+});
@@ -0,0 +1,31 @@
+import { toCsv } from '../src/Export';
+import { meetingRecord, participantRecord } from './records';
+
+describe('toCsv', () => {
+  it('quotes the values with commas, quotes or line breaks', () => {
+    const csv = toCsv(
+      meetingRecord('abc-defg-hij', 1000, {
+        participants: [participantRecord('Lovelace, "Ada"', 3000)],
+      }),
+    );
+    expect(csv.split('\r\n')).toEqual([
+      'Name,Speaking time,Speaking time (ms),Share (%),Turns',
+      '"Lovelace, ""Ada""",3s,3000,100.0,1',
+    ]);
+  });
+
+  it('keeps the spreadsheets from running names as formulas', () => {
+    const names = ['=1+1', '+1', '-1', '@SUM(A1)', '\tAda', '\rAda'];
+    const csv = toCsv(
+      meetingRecord('abc-defg-hij', 1000, {
+        participants: names.map((name) => participantRecord(name)),
+      }),
+    );
+    expect(
+      csv
+        .split('\r\n')
+        .slice(1)
+        .map((row) => row.split(',')[0]),
+    ).toEqual(["'=1+1", "'+1", "'-1", "'@SUM(A1)", "'\tAda", `"'\rAda"`]);
+  });
+});
@@ -0,0 +1,460 @@
+import MeetingController from '../src/MeetingController';
+import { jsNames } from '../src/constants';
+import { MeetingRecord } from '../src/MeetingRecord';
+import { LIVE_PORT_NAME, LiveUpdate } from '../src/LiveSync';
+import {
+  chromeFake,
+  connectPort,
+  resetChromeFake,
+  sentMessages,
+} from './chromeFake';
+import {
+  addParticipant,
+  advance,
+  labelAsYou,
+  loadFixture,
+  playScript,
+  removeParticipant,
+  setSpeaking,
+  showCaptions,
+} from './harness';
+
+const ADA = 'spaces/abc/devices/1';
+const GRACE = 'spaces/abc/devices/2';
+
+function getStoredLiveMeeting(): MeetingRecord {
+  const items = chromeFake.storage.local._items();
+  const key = Object.keys(items).find((k) => k.startsWith('live|'));
+  return <MeetingRecord>items[key];
+}
+
+describe('MeetingController', () => {
+  let controller: MeetingController;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetChromeFake();
+    loadFixture('grid');
+    controller = new MeetingController();
+  });
+
+  afterEach(() => {
+    // Stops listening to the page, which the next test reloads
+    controller.endMeeting('test over');
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('starts tracking once the participants are displayed', async () => {
+    expect(controller.startedAt).toBeUndefined();
+    await advance(1000);
+    expect(controller.startedAt).toBe(new Date().getTime());
+    expect(controller.participants.map((p) => p.name)).toEqual([
+      'Ada Lovelace',
+      'Grace Hopper',
+      'Alan Turing',
+    ]);
+  });
+
+  it('tracks the participants who join and leave', async () => {
+    await advance(1000);
+    addParticipant('spaces/abc/devices/4', 'Katherine Johnson');
+    await advance(100);
+    expect(controller.participants.map((p) => p.name)).toContain(
+      'Katherine Johnson',
+    );
+
+    removeParticipant(GRACE);
+    await advance(100);
+    const grace = controller.getParticipantByInitialId(GRACE);
+    expect(grace.observing).toBe(false);
+  });
+
+  it('counts interruptions and resets the strikes of who stopped', async () => {
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 2000, run: () => setSpeaking(GRACE, true) },
+        { at: 2500, run: () => setSpeaking(ADA, false) },
+        { at: 6000, run: () => setSpeaking(GRACE, false) },
+      ],
+      7000,
+    );
+    const ada = controller.getParticipantByInitialId(ADA);
+    const grace = controller.getParticipantByInitialId(GRACE);
+    expect(grace.interruptionsMade).toBe(1);
+    expect(ada.interruptionsReceived).toBe(1);
+    expect(ada.getTotalSpeakingTime()).toBe(2500);
+    expect(ada.getSpeakingStrikeTime()).toBe(0);
+    expect(grace.getTotalSpeakingTime()).toBe(4000);
+  });
+
+  it('saves the ongoing meeting every few seconds', async () => {
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 3000, run: () => setSpeaking(ADA, false) },
+      ],
+      4000,
+    );
+    // Not saved since the first second
+    expect(
+      getStoredLiveMeeting().participants[0].totalSpeakingTime,
+    ).toBeLessThan(3000);
+
+    await advance(2000);
+    const record = getStoredLiveMeeting();
+    expect(record.startedAt).toBe(controller.startedAt);
+    expect(record.participants[0].name).toBe('Ada Lovelace');
+    expect(record.participants[0].totalSpeakingTime).toBe(3000);
+    expect(record.participants[0].turnCount).toBe(1);
+  });
+
+  it('pushes the changes of the meeting to the popups connected', async () => {
+    await advance(1000);
+    // The captions are recorded once they're no longer displayed
+    showCaptions([{ who: 'Ada Lovelace', what: 'Hello' }]);
+    await advance(1000);
+    showCaptions([]);
+    await advance(1000);
+
+    const port = connectPort(LIVE_PORT_NAME);
+    const snapshot = <LiveUpdate>port.received[0];
+    expect(snapshot.meeting.closedCaptions).toEqual([]);
+    expect(snapshot.captions.from).toBe(0);
+    expect(snapshot.captions.events.map((c) => c.what)).toEqual(['Hello']);
+
+    await advance(1000);
+    expect(port.received).toHaveLength(2);
+    expect((<LiveUpdate>port.received[1]).captions).toBeNull();
+
+    showCaptions([{ who: 'Grace Hopper', what: 'Hi' }]);
+    await advance(1000);
+    showCaptions([]);
+    await advance(1000);
+    const updates = <LiveUpdate[]>port.received.slice(2);
+    const changes = updates.filter((update) => update.captions);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].captions.from).toBe(1);
+    expect(changes[0].captions.events.map((c) => c.what)).toEqual(['Hi']);
+    expect(updates[updates.length - 1].meeting.elapsed).toBe(
+      controller.getTotalElapsedTime(),
+    );
+
+    port.disconnect();
+    const count = port.received.length;
+    await advance(1000);
+    expect(port.received).toHaveLength(count);
+  });
+
+  it('pushes the emptied transcript once the captions are cut', async () => {
+    await advance(1000);
+    showCaptions([{ who: 'Ada Lovelace', what: 'Hello' }]);
+    await advance(1000);
+    showCaptions([]);
+    await advance(1000);
+    const port = connectPort(LIVE_PORT_NAME);
+
+    controller.clearCaptions();
+    await advance(1000);
+    const update = <LiveUpdate>port.received[port.received.length - 1];
+    expect(update.captions).toEqual({ from: 0, events: [] });
+    expect(controller.closedCaptions.toObject()).toEqual([]);
+    port.disconnect();
+  });
+
+  it('displays the speaking time in the participant boxes', async () => {
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 3000, run: () => setSpeaking(ADA, false) },
+      ],
+      4000,
+    );
+    const nameBox = document.querySelector(
+      `div[data-participant-id="${ADA}"] div[jscontroller="GQnsGd"]`,
+    );
+    expect(nameBox.textContent).toContain('Ada Lovelace');
+    expect(nameBox.textContent).toContain('3s (100.0%)');
+  });
+
+  it('displays the speaking shares in the floating widget', async () => {
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(GRACE, true) },
+        { at: 3000, run: () => setSpeaking(GRACE, false) },
+        { at: 3000, run: () => setSpeaking(ADA, true) },
+      ],
+      4000,
+    );
+    const speaker = document.querySelector('[data-overlay="speaker"]');
+    expect(speaker.textContent).toContain('Ada Lovelace');
+    const rows = document.querySelector('[data-overlay="rows"]');
+    expect(rows.textContent).toMatch(/Grace Hopper\s+3s[\s\S]*Ada Lovelace/);
+
+    // The widget is rendered again if the page drops it
+    document.querySelector('[data-overlay="header"]').parentElement.remove();
+    await advance(1000);
+    expect(document.querySelector('[data-overlay="rows"]')).not.toBeNull();
+  });
+
+  it('recognizes the participants who rejoin', async () => {
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 2000, run: () => setSpeaking(ADA, false) },
+        { at: 2500, run: () => removeParticipant(ADA) },
+        {
+          at: 3000,
+          run: () =>
+            addParticipant(
+              'spaces/abc/devices/5',
+              'Ada Lovelace',
+              'https://lh3.googleusercontent.com/a/ada',
+            ),
+        },
+        { at: 3500, run: () => setSpeaking('spaces/abc/devices/5', true) },
+        { at: 4500, run: () => setSpeaking('spaces/abc/devices/5', false) },
+      ],
+      5000,
+    );
+    expect(controller.participants).toHaveLength(3);
+    const ada = controller.getParticipantByInitialId('spaces/abc/devices/5');
+    expect(ada.getIdentifier()).toBe(ADA);
+    expect(ada.getTotalSpeakingTime()).toBe(3000);
+    expect(ada.toObject().rejoins).toEqual([
+      {
+        initialId: 'spaces/abc/devices/5',
+        name: 'Ada Lovelace',
+        at: ada.merges[0].at,
+        manual: false,
+      },
+    ]);
+  });
+
+  it('splits out what was said from an automatic rejoin', async () => {
+    await advance(1000);
+    const namesake = 'spaces/abc/devices/5';
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 2000, run: () => setSpeaking(ADA, false) },
+        { at: 2100, run: () => removeParticipant(ADA) },
+        {
+          at: 2200,
+          run: () =>
+            addParticipant(
+              namesake,
+              'Ada Lovelace',
+              'https://lh3.googleusercontent.com/a/ada',
+            ),
+        },
+        { at: 2300, run: () => setSpeaking(namesake, true) },
+        { at: 3000, run: () => setSpeaking(GRACE, true) },
+        { at: 3500, run: () => setSpeaking(GRACE, false) },
+        { at: 5300, run: () => setSpeaking(namesake, false) },
+      ],
+      6000,
+    );
+    const ada = controller.getParticipantByInitialId(ADA);
+    expect(ada.getTotalSpeakingTime()).toBe(5000);
+    expect(ada.turnCount).toBe(2);
+    const rejoinedAt = ada.merges[0].at;
+
+    // Not the same Ada after all
+    expect(controller.splitParticipant(ADA, namesake)).toBe(true);
+    const other = controller.getParticipantByInitialId(namesake);
+    expect(other).not.toBe(ada);
+    expect(other.joinedAt).toBe(rejoinedAt);
+    expect(other.toObject()).toMatchObject({
+      totalSpeakingTime: 3000,
+      turnCount: 1,
+      interruptionsReceived: 1,
+    });
+    expect(ada.toObject()).toMatchObject({
+      totalSpeakingTime: 2000,
+      turnCount: 1,
+      interruptionsReceived: 0,
+      rejoins: [],
+    });
+  });
+
+  it('merges and splits participants by hand', async () => {
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 1000, run: () => setSpeaking(ADA, false) },
+        { at: 1000, run: () => setSpeaking(GRACE, true) },
+        { at: 3000, run: () => setSpeaking(GRACE, false) },
+      ],
+      4000,
+    );
+    expect(controller.mergeParticipants(ADA, GRACE)).toBe(true);
+    expect(controller.participants).toHaveLength(2);
+    const ada = controller.getParticipantByInitialId(GRACE);
+    expect(ada.name).toBe('Ada Lovelace');
+    expect(ada.getTotalSpeakingTime()).toBe(3000);
+    expect(ada.turnCount).toBe(2);
+
+    expect(controller.splitParticipant(ADA, GRACE)).toBe(true);
+    expect(controller.participants).toHaveLength(3);
+    const grace = controller.getParticipantByInitialId(GRACE);
+    expect(grace.name).toBe('Grace Hopper');
+    expect(grace.getTotalSpeakingTime()).toBe(2000);
+    expect(ada.getTotalSpeakingTime()).toBe(1000);
+  });
+
+  it('estimates the speaking time of the participants off-grid from the captions', async () => {
+    await advance(1000);
+    const said = [
+      'So',
+      'So about',
+      'So about the',
+      'So about the plan',
+      'So about the plan, we',
+    ];
+    await playScript(
+      said.map((what, idx) => ({
+        at: idx * 500,
+        run: () => showCaptions([{ who: 'Katherine Johnson', what }]),
+      })),
+      5000,
+    );
+    const katherine = controller.participants.find(
+      (p) => p.name === 'Katherine Johnson',
+    );
+    expect(katherine.observing).toBe(false);
+    expect(katherine.isSpeaking()).toBe(false);
+    expect(katherine.toObject()).toMatchObject({
+      totalSpeakingTime: 2000,
+      estimatedSpeakingTime: 2000,
+      turnCount: 1,
+    });
+
+    // Once their box is displayed, their microphone is used.
+    addParticipant('spaces/abc/devices/6', 'Katherine Johnson', 'k.png');
+    await advance(100);
+    expect(controller.participants).toHaveLength(4);
+    expect(katherine.observing).toBe(true);
+    expect(katherine.profileImageUrl).toBe('k.png');
+  });
+
+  it('ignores the captions of the participants whose microphone is observed', async () => {
+    await advance(1000);
+    await playScript(
+      [
+        {
+          at: 0,
+          run: () => showCaptions([{ who: 'Ada Lovelace', what: 'Hi' }]),
+        },
+        {
+          at: 500,
+          run: () => showCaptions([{ who: 'Ada Lovelace', what: 'Hi all' }]),
+        },
+      ],
+      3000,
+    );
+    expect(controller.participants).toHaveLength(3);
+    expect(
+      controller.getParticipantByInitialId(ADA).getTotalSpeakingTime(),
+    ).toBe(0);
+  });
+
+  it('counts the captions of "You" to the user of the browser', async () => {
+    labelAsYou(ADA);
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 0, run: () => showCaptions([{ who: 'You', what: 'Hi' }]) },
+        {
+          at: 500,
+          run: () => showCaptions([{ who: 'You', what: 'Hi all' }]),
+        },
+        { at: 2000, run: () => setSpeaking(ADA, false) },
+      ],
+      3000,
+    );
+    expect(controller.participants).toHaveLength(3);
+    expect(controller.getLocalParticipant().name).toBe('Ada Lovelace');
+    expect(controller.getLocalParticipant().toObject().isLocalUser).toBe(true);
+    const ada = controller.getParticipantByInitialId(ADA);
+    expect(ada.getTotalSpeakingTime()).toBe(2000);
+    expect(ada.getEstimatedSpeakingTime()).toBe(0);
+  });
+
+  it('recognizes in the captions the names with markup', async () => {
+    addParticipant('spaces/abc/devices/4', 'Tom & <Jerry>');
+    await advance(1000);
+    showCaptions([{ who: 'Tom & <Jerry>', what: 'Hi' }]);
+    await advance(1000);
+    showCaptions([]);
+    await advance(1000);
+    expect(controller.participants.map((p) => p.name)).toContain(
+      'Tom & <Jerry>',
+    );
+    expect(controller.participants).toHaveLength(4);
+  });
+
+  it('saves a final record when the user leaves the call', async () => {
+    await advance(1000);
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        {
+          at: 500,
+          run: () => showCaptions([{ who: 'Ada Lovelace', what: 'Bye all' }]),
+        },
+      ],
+      3000,
+    );
+    document.querySelector<HTMLElement>('[aria-label="Leave call"] i').click();
+    expect(controller.endedAt).toBe(new Date().getTime());
+
+    const ada = controller.getParticipantByInitialId(ADA);
+    expect(ada.isSpeaking()).toBe(false);
+    expect(ada.getTotalSpeakingTime()).toBe(3000);
+    expect(document.querySelector('[data-overlay="rows"]')).toBeNull();
+
+    await advance(5000);
+    const record = getStoredLiveMeeting();
+    expect(record.endedAt).toBe(controller.endedAt);
+    expect(record.elapsed).toBe(3000);
+    expect(record.participants[0].totalSpeakingTime).toBe(3000);
+    // The captions are saved apart from the record, see saveLiveMeeting
+    expect(record.closedCaptions).toEqual([]);
+    const ended = (<{ meetingEnded?: MeetingRecord }[]>sentMessages).find(
+      (message) => message.meetingEnded,
+    );
+    expect(ended.meetingEnded).toEqual({
+      ...record,
+      closedCaptions: [expect.objectContaining({ what: 'Bye all' })],
+    });
+  });
+
+  it('recognizes the leave button by its icon when its code changed', async () => {
+    await advance(1000);
+    const button = document.querySelector('[aria-label="Leave call"]');
+    button.setAttribute('jsname', 'Zx81Qa');
+    button.querySelector('i').click();
+    expect(controller.endedAt).toBe(new Date().getTime());
+    expect(jsNames.leaveCallButton).toBe('Zx81Qa');
+    jsNames.leaveCallButton = 'CQylAd';
+  });
+
+  it('ends the meeting once the participants are gone for a while', async () => {
+    await advance(1000);
+    document.querySelector('[data-participant-id]').parentElement.remove();
+    await advance(5000);
+    expect(controller.endedAt).toBeNull();
+    await advance(6000);
+    expect(controller.endedAt).not.toBeNull();
+    expect(controller.changeTracking({ pause: true }).started).toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  MeetingRecord,
+  MEETING_RECORD_SCHEMA_VERSION,
+} from '../src/MeetingRecord';
+import { migrateMeetingRecord, needsMigration } from '../src/Migrations';
+import { ParticipantEventEnum } from '../src/ParticipantEvent';
+import { Storage } from '../src/Storage';
+import { chromeFake, resetChromeFake } from './chromeFake';
+import { captionRecord, meetingRecord, participantRecord } from './records';
+
+const caption = captionRecord('Ada Lovelace', 'Hello', 2000);
+
+// What the meeting of the records below is at the current version
+const migrated: MeetingRecord = meetingRecord('abc-defg-hij', 1000, {
+  elapsed: 5000,
+  participants: [
+    participantRecord('Ada Lovelace', 3000, {
+      id: '',
+      profileImageUrl: 'ada.png',
+      turnCount: 0,
+      longestTurnTime: 0,
+      longestStrikeTime: 0,
+    }),
+  ],
+  closedCaptions: [caption],
+});
+
+/**
+ * Returns the meeting as it was saved at the given schema version, with the
+ * fields each version added.
+ * @param version from 1 to the current one
+ */
+function recordAtVersion(version: number): { [field: string]: unknown } {
+  let participant: { [field: string]: unknown } = {
+    name: 'Ada Lovelace',
+    profileImageUrl: 'ada.png',
+    totalSpeakingTime: 3000,
+  };
+  const additions: { [version: number]: { [field: string]: unknown } } = {
+    2: { turnCount: 0 },
+    3: {
+      longestTurnTime: 0,
+      longestStrikeTime: 0,
+      interruptionsMade: 0,
+      interruptionsReceived: 0,
+      lastSpokeAt: null,
+    },
+    4: { id: '', rejoins: [] },
+    5: { estimatedSpeakingTime: 0 },
+    9: { joinedAt: null },
+    10: { isLocalUser: false },
+  };
+  for (let v = 2; v <= version; v++) {
+    participant = { ...participant, ...additions[v] };
+  }
+  return {
+    schemaVersion: version,
+    meetingId: 'abc-defg-hij',
+    startedAt: 1000,
+    elapsed: 5000,
+    participants: [participant],
+    closedCaptions: [caption],
+    ...(version >= 6 ? { agenda: [] } : {}),
+    ...(version >= 7 ? { pauses: [], segments: [] } : {}),
+    ...(version >= 8 ? { endedAt: null } : {}),
+  };
+}
+
+describe('migrateMeetingRecord', () => {
+  it('reads the records saved before versioning', () => {
+    const raw = {
+      meetingId: 'abc-defg-hij',
+      startedAt: 1000,
+      elapsed: 5000,
+      participants: [['Ada Lovelace', '00:00:03', '100%', 'ada.png', 3000]],
+      // A ClosedCaptions instance, saved with what it held
+      closedCaptions: {
+        events: [{ ...caption, interjection: undefined }],
+        _logger: { prefix: 'ClosedCaptions' },
+      },
+    };
+    expect(migrateMeetingRecord(raw)).toEqual(migrated);
+  });
+
+  it('reads the participants saved as objects before versioning', () => {
+    const raw = {
+      meetingId: 'abc-defg-hij',
+      startedAt: 1000,
+      elapsed: 5000,
+      participants: [
+        {
+          name: 'Ada Lovelace',
+          profileImageUrl: 'ada.png',
+          totalSpeakingTime: '3000',
+        },
+      ],
+      closedCaptions: { events: [caption] },
+    };
+    expect(migrateMeetingRecord(raw)).toEqual(migrated);
+  });
+
+  it.each(
+    Array.from({ length: MEETING_RECORD_SCHEMA_VERSION }, (_, i) => i + 1),
+  )('upgrades the records of version %i', (version) => {
+    const raw = recordAtVersion(version);
+    expect(needsMigration(raw)).toBe(version < MEETING_RECORD_SCHEMA_VERSION);
+    expect(migrateMeetingRecord(raw)).toEqual(migrated);
+  });
+
+  it('finds when the participants joined in their events', () => {
+    const raw = recordAtVersion(8);
+    raw.participants = [
+      {
+        ...(<{ [field: string]: unknown }[]>raw.participants)[0],
+        events: [
+          { event: ParticipantEventEnum.START_SPEAKING, datetime: 1500 },
+          { event: ParticipantEventEnum.JOINED, datetime: 1200 },
+        ],
+      },
+    ];
+    expect(migrateMeetingRecord(raw).participants[0].joinedAt).toBe(1200);
+  });
+
+  it('changes nothing when migrating twice', () => {
+    const once = migrateMeetingRecord({
+      meetingId: 'abc-defg-hij',
+      startedAt: 1000,
+      participants: [['Ada Lovelace', '', '', 'ada.png', 3000]],
+    });
+    expect(needsMigration(once)).toBe(false);
+    expect(migrateMeetingRecord(JSON.parse(JSON.stringify(once)))).toEqual(
+      once,
+    );
+  });
+
+  it('leaves the records of future versions alone', () => {
+    const future = {
+      ...recordAtVersion(MEETING_RECORD_SCHEMA_VERSION),
+      schemaVersion: MEETING_RECORD_SCHEMA_VERSION + 1,
+      newField: 'kept',
+    };
+    expect(needsMigration(future)).toBe(false);
+    expect(migrateMeetingRecord({ ...future })).toEqual(future);
+  });
+
+  it("doesn't half-upgrade the records it can't read", () => {
+    expect(migrateMeetingRecord(null)).toBeNull();
+    expect(migrateMeetingRecord({ startedAt: 1000 })).toBeNull();
+    expect(
+      migrateMeetingRecord({ ...recordAtVersion(1), schemaVersion: 0.5 }),
+    ).toBeNull();
+  });
+});
+
+describe('Storage.migrate', () => {
+  beforeEach(() => resetChromeFake());
+
+  it('upgrades the history saved, once', async () => {
+    const storage = new Storage();
+    chromeFake.storage.local.set({
+      history: { 'abc-defg-hij|1000': recordAtVersion(1) },
+    });
+    await new Promise<void>((resolve) => storage.migrate(resolve));
+    expect(chromeFake.storage.local._items().history).toEqual({
+      'abc-defg-hij|1000': migrated,
+    });
+
+    const set = jest.spyOn(chromeFake.storage.local, 'set');
+    await new Promise<void>((resolve) => storage.migrate(resolve));
+    expect(set).not.toHaveBeenCalled();
+    set.mockRestore();
+  });
+
+  it('leaves a history of future versions alone', async () => {
+    const storage = new Storage();
+    const future = {
+      ...recordAtVersion(MEETING_RECORD_SCHEMA_VERSION),
+      schemaVersion: MEETING_RECORD_SCHEMA_VERSION + 1,
+    };
+    chromeFake.storage.local.set({ history: { 'abc-defg-hij|1000': future } });
+    const set = jest.spyOn(chromeFake.storage.local, 'set');
+    await new Promise<void>((resolve) => storage.migrate(resolve));
+    expect(set).not.toHaveBeenCalled();
+    set.mockRestore();
+    expect(chromeFake.storage.local._items().history).toEqual({
+      'abc-defg-hij|1000': future,
+    });
+  });
+});
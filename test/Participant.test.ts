@@ -0,0 +1,68 @@
+import { Participant } from '../src/Participant';
+import { advance, loadFixture, playScript, setSpeaking } from './harness';
+
+const ADA = 'spaces/abc/devices/1';
+
+describe('Participant', () => {
+  let participant: Participant;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    loadFixture('grid');
+    participant = new Participant(ADA);
+    participant.startObservers();
+  });
+
+  afterEach(() => {
+    participant.stopObservers();
+    jest.useRealTimers();
+  });
+
+  it('reads its name and image from its box', () => {
+    expect(participant.name).toBe('Ada Lovelace');
+    expect(participant.profileImageUrl).toBe(
+      'https://lh3.googleusercontent.com/a/ada',
+    );
+    expect(participant.isPresentationBox()).toBe(false);
+    expect(participant.observing).toBe(true);
+  });
+
+  it('counts the time spoken while the microphone is active', async () => {
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 3000, run: () => setSpeaking(ADA, false) },
+      ],
+      4000,
+    );
+    expect(participant.getTotalSpeakingTime()).toBe(3000);
+    expect(participant.isSpeaking()).toBe(false);
+  });
+
+  it('includes the current turn in the live totals', async () => {
+    setSpeaking(ADA, true);
+    await advance(2000);
+    expect(participant.isSpeaking()).toBe(true);
+    expect(participant.getTotalSpeakingTime()).toBe(2000);
+    expect(participant.getLongestTurnTime()).toBe(2000);
+  });
+
+  it('keeps track of turns and strikes', async () => {
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 1000, run: () => setSpeaking(ADA, false) },
+        { at: 1500, run: () => setSpeaking(ADA, true) },
+        { at: 4500, run: () => setSpeaking(ADA, false) },
+      ],
+      5000,
+    );
+    const record = participant.toObject();
+    expect(record.turnCount).toBe(2);
+    expect(record.totalSpeakingTime).toBe(4000);
+    expect(record.longestTurnTime).toBe(3000);
+    // Nobody stopped the strike in between the two turns.
+    expect(record.longestStrikeTime).toBe(4000);
+    expect(record.lastSpokeAt).toBe(new Date().getTime() - 500);
+  });
+});
@@ -0,0 +1,124 @@
+import { getReportStats, toReportHtml } from '../src/Report';
+import {
+  ClosedCaptionEventRecord,
+  ParticipantRecord,
+} from '../src/MeetingRecord';
+import { captionRecord, meetingRecord, participantRecord } from './records';
+
+const STARTED_AT = new Date(2021, 10, 8, 14, 30).getTime();
+
+function participant(
+  name: string,
+  totalSpeakingTime: number,
+  joinedAt: number | null = STARTED_AT,
+): ParticipantRecord {
+  return participantRecord(name, totalSpeakingTime, { turnCount: 2, joinedAt });
+}
+
+function caption(
+  who: string,
+  what: string,
+  at: number,
+  interjection = false,
+): ClosedCaptionEventRecord {
+  return captionRecord(who, what, STARTED_AT + at, { interjection });
+}
+
+const record = meetingRecord('abc-defg-hij', STARTED_AT, {
+  endedAt: STARTED_AT + 600000,
+  elapsed: 600000,
+  participants: [
+    participant('Grace', 20000),
+    participant('Ada <Countess>', 60000),
+    participant('Alan', 5000, STARTED_AT + 125000),
+    participant('Katherine', 0, null),
+  ],
+  closedCaptions: [
+    caption('Ada <Countess>', 'So about the plan', 1000),
+    caption('Grace', 'Right', 3000, true),
+    caption('Ada <Countess>', 'we ship on Friday', 4000),
+    caption('Grace', 'Sure', 150000, true),
+  ],
+  agenda: [
+    {
+      title: 'Roadmap',
+      owner: '',
+      budget: 300000,
+      personBudget: 0,
+      startedAt: STARTED_AT + 100000,
+      endedAt: null,
+      speakers: [],
+    },
+  ],
+});
+
+describe('getReportStats', () => {
+  it('ranks the participants and counts their interjections', () => {
+    const stats = getReportStats(record, 2);
+    expect(stats.rows.map((r) => r.name)).toEqual([
+      'Ada <Countess>',
+      'Grace',
+      'Alan',
+      'Katherine',
+    ]);
+    expect(stats.rows[0].share).toBeCloseTo(60 / 85);
+    expect(stats.rows[1].interjectionCount).toBe(2);
+    expect(stats.interjectionCount).toBe(2);
+    expect(stats.mostVocal.map((r) => r.name)).toEqual([
+      'Ada <Countess>',
+      'Grace',
+    ]);
+    expect(stats.leastVocal.map((r) => r.name)).toEqual(['Katherine', 'Alan']);
+  });
+
+  it('counts the interjections of "You" and of names with markup', () => {
+    const stats = getReportStats({
+      ...record,
+      participants: [
+        participantRecord('Ada & Grace', 1000),
+        participantRecord('Alan', 500, { isLocalUser: true }),
+      ],
+      closedCaptions: [
+        caption('Ada & Grace', 'Agreed', 1000, true),
+        caption('You', 'Same', 2000, true),
+        caption('vous', 'Pareil', 3000, true),
+        caption('Katherine', 'Me too', 4000, true),
+      ],
+    });
+    expect(stats.rows.map((r) => r.interjectionCount)).toEqual([1, 2]);
+    expect(stats.interjectionCount).toBe(4);
+  });
+
+  it("doesn't list anyone as both most and least vocal", () => {
+    const stats = getReportStats({
+      ...record,
+      participants: [participant('Ada', 1000), participant('Grace', 500)],
+    });
+    expect(stats.mostVocal.map((r) => r.name)).toEqual(['Ada']);
+    expect(stats.leastVocal.map((r) => r.name)).toEqual(['Grace']);
+  });
+});
+
+describe('toReportHtml', () => {
+  it('renders a standalone page with the attendance and the transcript', () => {
+    const html = toReportHtml(record, 'Weekly <sync>');
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<style>');
+    expect(html).not.toContain('<script');
+    expect(html).toContain('<title>Weekly &lt;sync&gt; - Meeting report');
+
+    document.body.innerHTML = html;
+    const rows = Array.from(document.querySelectorAll('tr')).map(
+      (tr) => tr.textContent,
+    );
+    expect(rows[3]).toContain('Alan');
+    expect(rows[3]).toContain('+2:05');
+    expect(rows[4]).toContain('unknown');
+
+    const transcript = document.querySelector('.transcript').textContent;
+    expect(transcript).toMatch(
+      /Ada <Countess>: So about the plan[\s\S]*Roadmap[\s\S]*Sure/,
+    );
+    expect(document.querySelectorAll('.transcript i')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { MeetingHistory } from '../src/MeetingRecord';
+import {
+  applyRetentionPolicy,
+  estimateSize,
+  pruneToSize,
+} from '../src/Retention';
+import { captionRecord, meetingRecord } from './records';
+
+const DAY_MS = 24 * 3600 * 1000;
+const now = new Date(2021, 10, 30).getTime();
+
+/**
+ * @param daysAgo when it started
+ * @param captionCount the length of its transcript
+ */
+function meeting(daysAgo: number, captionCount = 0) {
+  return meetingRecord(`meeting-${daysAgo}`, now - daysAgo * DAY_MS, {
+    closedCaptions: Array.from({ length: captionCount }, (_, i) =>
+      captionRecord('Ada Lovelace', `line ${i}`, i),
+    ),
+  });
+}
+
+function history(...records: ReturnType<typeof meeting>[]): MeetingHistory {
+  const historyObject: MeetingHistory = {};
+  records.forEach((record) => {
+    historyObject[record.meetingId] = record;
+  });
+  return historyObject;
+}
+
+describe('applyRetentionPolicy', () => {
+  const policy = { maxMeetings: 3, maxAgeDays: 100, transcriptMaxAgeDays: 10 };
+
+  it('keeps the most recent meetings only', () => {
+    const pruned = applyRetentionPolicy(
+      history(meeting(4), meeting(1), meeting(3), meeting(2)),
+      policy,
+      now,
+    );
+    expect(Object.keys(pruned).sort()).toEqual([
+      'meeting-1',
+      'meeting-2',
+      'meeting-3',
+    ]);
+  });
+
+  it('drops the meetings and transcripts too old', () => {
+    const original = history(meeting(5, 2), meeting(20, 2), meeting(200, 2));
+    const pruned = applyRetentionPolicy(original, policy, now);
+    expect(Object.keys(pruned).sort()).toEqual(['meeting-20', 'meeting-5']);
+    expect(pruned['meeting-5']).toBe(original['meeting-5']);
+    expect(pruned['meeting-20'].closedCaptions).toEqual([]);
+    expect(original['meeting-20'].closedCaptions).toHaveLength(2);
+  });
+});
+
+describe('pruneToSize', () => {
+  it('leaves a history that fits as it is', () => {
+    const original = history(meeting(2, 5), meeting(1, 5));
+    const pruned = pruneToSize(original, estimateSize(original) + 10);
+    expect(pruned).toEqual(original);
+  });
+
+  it('drops the oldest transcripts first', () => {
+    const original = history(meeting(3, 50), meeting(2, 50), meeting(1, 50));
+    const withoutOldest = {
+      ...original,
+      'meeting-3': { ...original['meeting-3'], closedCaptions: [] },
+    };
+    const pruned = pruneToSize(original, estimateSize(withoutOldest) + 10);
+    expect(pruned).toEqual(withoutOldest);
+    expect(original['meeting-3'].closedCaptions).toHaveLength(50);
+  });
+
+  it('then drops the oldest meetings, except the one kept', () => {
+    const original = history(meeting(3, 50), meeting(2, 50), meeting(1, 50));
+    const pruned = pruneToSize(
+      original,
+      estimateSize(history(meeting(3, 50))),
+      'meeting-3',
+    );
+    expect(Object.keys(pruned)).toEqual(['meeting-3']);
+    expect(pruned['meeting-3']).toBe(original['meeting-3']);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  ClosedCaptionEventRecord,
+  getMeetingKey,
+  MeetingHistory,
+  MeetingRecord,
+} from '../src/MeetingRecord';
+import { getSpeakers, searchTranscripts } from '../src/Search';
+import { captionRecord as caption, meetingRecord } from './records';
+
+function meeting(
+  meetingId: string,
+  startedAt: number,
+  closedCaptions: ClosedCaptionEventRecord[],
+): MeetingRecord {
+  return meetingRecord(meetingId, startedAt, { closedCaptions });
+}
+
+const planning = meeting('abc-defg-hij', new Date(2021, 10, 2).getTime(), [
+  caption('Ada', 'Good morning'),
+  caption('Grace', 'Let us talk about the database migration'),
+  caption('Ada', 'The Migration is planned for Friday'),
+  caption('Grace', 'Great'),
+]);
+const retro = meeting('klm-nopq-rst', new Date(2021, 10, 9).getTime(), [
+  caption('Alan', 'The migration went well'),
+]);
+const history: MeetingHistory = {
+  [getMeetingKey(planning)]: planning,
+  [getMeetingKey(retro)]: retro,
+};
+
+describe('searchTranscripts', () => {
+  const query = { text: '', speaker: '', from: null, to: null };
+
+  it('finds the lines containing every word, most recent meeting first', () => {
+    const matches = searchTranscripts(history, { ...query, text: 'migration' });
+    expect(matches.map((m) => [m.meeting.meetingId, m.captionIndex])).toEqual([
+      ['klm-nopq-rst', 0],
+      ['abc-defg-hij', 1],
+      ['abc-defg-hij', 2],
+    ]);
+    expect(
+      searchTranscripts(history, { ...query, text: 'MIGRATION friday' }),
+    ).toHaveLength(1);
+  });
+
+  it('returns the lines around each match', () => {
+    const [match] = searchTranscripts(history, { ...query, text: 'friday' });
+    expect(match.meetingKey).toBe(getMeetingKey(planning));
+    expect(match.before.map((c) => c.what)).toEqual([
+      'Let us talk about the database migration',
+    ]);
+    expect(match.after.map((c) => c.what)).toEqual(['Great']);
+  });
+
+  it('filters by speaker and date', () => {
+    expect(
+      searchTranscripts(history, {
+        ...query,
+        text: 'migration',
+        speaker: 'Ada',
+      }).map((m) => m.caption.what),
+    ).toEqual(['The Migration is planned for Friday']);
+    expect(
+      searchTranscripts(history, {
+        ...query,
+        text: 'migration',
+        from: new Date(2021, 10, 5).getTime(),
+      }).map((m) => m.caption.who),
+    ).toEqual(['Alan']);
+    expect(
+      searchTranscripts(history, {
+        ...query,
+        speaker: 'Grace',
+        to: new Date(2021, 10, 5).getTime(),
+      }),
+    ).toHaveLength(2);
+  });
+
+  it('matches nothing when the query is empty', () => {
+    expect(searchTranscripts(history, query)).toEqual([]);
+  });
+});
+
+describe('getSpeakers', () => {
+  it('lists everyone who spoke in the saved meetings', () => {
+    expect(getSpeakers(history)).toEqual(['Ada', 'Alan', 'Grace']);
+  });
+});
@@ -0,0 +1,127 @@
+import MeetingController from '../src/MeetingController';
+import { MeetingRecord } from '../src/MeetingRecord';
+import { applyLiveUpdate, LIVE_PORT_NAME, LiveUpdate } from '../src/LiveSync';
+import { connectPort, resetChromeFake } from './chromeFake';
+import { advance, loadFixture, playScript, setSpeaking } from './harness';
+
+const ADA = 'spaces/abc/devices/1';
+const GRACE = 'spaces/abc/devices/2';
+
+// What a popup opened now would show
+function getLiveMeeting(): MeetingRecord {
+  const port = connectPort(LIVE_PORT_NAME);
+  port.disconnect();
+  return applyLiveUpdate(null, <LiveUpdate>port.received[0]);
+}
+
+describe('tracking controls', () => {
+  let controller: MeetingController;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    resetChromeFake();
+    loadFixture('grid');
+    controller = new MeetingController();
+    await advance(1000);
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it("doesn't count what is said while paused", async () => {
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 2000, run: () => controller.changeTracking({ pause: true }) },
+        { at: 5000, run: () => setSpeaking(ADA, false) },
+        { at: 6000, run: () => setSpeaking(GRACE, true) },
+        { at: 7000, run: () => controller.changeTracking({ resume: true }) },
+        { at: 8000, run: () => setSpeaking(GRACE, false) },
+      ],
+      9000,
+    );
+    const ada = controller.getParticipantByInitialId(ADA);
+    const grace = controller.getParticipantByInitialId(GRACE);
+    expect(ada.getTotalSpeakingTime()).toBe(2000);
+    // Grace is counted from the resume on
+    expect(grace.getTotalSpeakingTime()).toBe(1000);
+    expect(controller.getTotalElapsedTime()).toBe(9000 - 5000);
+
+    const record = getLiveMeeting();
+    expect(record.pauses).toHaveLength(1);
+    expect(record.pauses[0].endedAt - record.pauses[0].startedAt).toBe(5000);
+  });
+
+  it('keeps the stats of each segment apart', async () => {
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 3000, run: () => setSpeaking(ADA, false) },
+        {
+          at: 4000,
+          run: () => controller.changeTracking({ newSegment: 'Q&A' }),
+        },
+        { at: 5000, run: () => setSpeaking(ADA, true) },
+        { at: 6000, run: () => setSpeaking(ADA, false) },
+        { at: 6000, run: () => setSpeaking(GRACE, true) },
+        { at: 8000, run: () => setSpeaking(GRACE, false) },
+      ],
+      9000,
+    );
+    expect(controller.changeTracking({})).toEqual({
+      started: true,
+      paused: false,
+      segmentName: 'Q&A',
+      segmentCount: 2,
+    });
+    const record = getLiveMeeting();
+    expect(record.segments.map((s) => [s.name, s.elapsed])).toEqual([
+      ['Segment 1', 4000],
+      ['Q&A', 5000],
+    ]);
+    const [first, second] = record.segments;
+    expect(first.participants[0]).toMatchObject({
+      name: 'Ada Lovelace',
+      totalSpeakingTime: 3000,
+    });
+    expect(
+      second.participants.map((p) => [p.name, p.totalSpeakingTime]),
+    ).toEqual([
+      ['Grace Hopper', 2000],
+      ['Ada Lovelace', 1000],
+      ['Alan Turing', 0],
+    ]);
+    // The meeting's totals sum the segments up
+    expect(
+      record.participants.map((p) => [
+        p.name,
+        p.totalSpeakingTime,
+        p.turnCount,
+      ]),
+    ).toEqual([
+      ['Ada Lovelace', 4000, 2],
+      ['Grace Hopper', 2000, 1],
+      ['Alan Turing', 0, 0],
+    ]);
+  });
+
+  it('resets all the counters', async () => {
+    await playScript(
+      [
+        { at: 0, run: () => setSpeaking(ADA, true) },
+        { at: 3000, run: () => setSpeaking(ADA, false) },
+        { at: 4000, run: () => controller.changeTracking({ reset: true }) },
+      ],
+      5000,
+    );
+    const record = getLiveMeeting();
+    expect(record.startedAt).toBe(controller.startedAt);
+    expect(record.elapsed).toBe(1000);
+    expect(record.participants.every((p) => p.totalSpeakingTime === 0)).toBe(
+      true,
+    );
+    expect(record.segments).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { jsControllerCodes } from '../src/constants';
+import {
+  clearLearnedSelectors,
+  getBundledRegistry,
+  learnSelector,
+  loadSelectors,
+  resolveRegistry,
+} from '../src/SelectorRegistry';
+import { resetChromeFake } from './chromeFake';
+
+const bundled = getBundledRegistry();
+
+describe('resolveRegistry', () => {
+  it('uses the bundled codes by default', () => {
+    expect(resolveRegistry(null, null)).toEqual(bundled);
+  });
+
+  it('uses the codes learned with the bundled version only', () => {
+    const selectors = { jsControllerCodes: { microphoneBox: 'Learnt' } };
+    expect(
+      resolveRegistry(null, { bundledVersion: bundled.version, selectors })
+        .jsControllerCodes.microphoneBox,
+    ).toBe('Learnt');
+    expect(
+      resolveRegistry(null, { bundledVersion: bundled.version - 1, selectors })
+        .jsControllerCodes.microphoneBox,
+    ).toBe(bundled.jsControllerCodes.microphoneBox);
+  });
+
+  it('prefers an override at least as recent as the bundled codes', () => {
+    const learned = {
+      bundledVersion: bundled.version,
+      selectors: { jsNames: { leaveCallButton: 'Learnt' } },
+    };
+    const override = {
+      version: bundled.version,
+      jsNames: { leaveCallButton: 'Overridden' },
+    };
+    expect(resolveRegistry(override, learned).jsNames.leaveCallButton).toBe(
+      'Overridden',
+    );
+    expect(
+      resolveRegistry({ ...override, version: bundled.version - 1 }, learned)
+        .jsNames.leaveCallButton,
+    ).toBe('Learnt');
+    expect(
+      resolveRegistry({ jsNames: override.jsNames }, null).jsNames
+        .leaveCallButton,
+    ).toBe(bundled.jsNames.leaveCallButton);
+  });
+
+  it('ignores the unknown names and the values that are not codes', () => {
+    const registry = resolveRegistry(
+      <Parameters<typeof resolveRegistry>[0]>(<unknown>{
+        version: bundled.version,
+        jsControllerCodes: { unknownBox: 'Abc123', microphoneBox: 42 },
+        microphoneStatuses: 'gjg47c',
+        joinButtons: { loadingContainer: '' },
+      }),
+      null,
+    );
+    expect(registry).toEqual(bundled);
+  });
+});
+
+describe('learnSelector', () => {
+  beforeEach(() => resetChromeFake());
+
+  afterEach(() => {
+    Object.assign(jsControllerCodes, bundled.jsControllerCodes);
+  });
+
+  it('uses a learned code now and in the next meetings', async () => {
+    learnSelector('jsControllerCodes', 'microphoneBox', 'Learnt');
+    expect(jsControllerCodes.microphoneBox).toBe('Learnt');
+
+    Object.assign(jsControllerCodes, bundled.jsControllerCodes);
+    await new Promise<void>((resolve) => loadSelectors(resolve));
+    expect(jsControllerCodes.microphoneBox).toBe('Learnt');
+
+    await new Promise<void>((resolve) => clearLearnedSelectors(resolve));
+    await new Promise<void>((resolve) => loadSelectors(resolve));
+    expect(jsControllerCodes.microphoneBox).toBe(
+      bundled.jsControllerCodes.microphoneBox,
+    );
+  });
+});
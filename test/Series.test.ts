@@ -0,0 +1,110 @@
+import {
+  getMeetingKey,
+  MeetingHistory,
+  MeetingRecord,
+  ParticipantRecord,
+} from '../src/MeetingRecord';
+import {
+  compareSessionToSeries,
+  getSeries,
+  getSeriesNames,
+  saveSeriesName,
+} from '../src/Series';
+import { resetChromeFake } from './chromeFake';
+import { meetingRecord, participantRecord as participant } from './records';
+
+function session(
+  meetingId: string,
+  week: number,
+  participants: ParticipantRecord[],
+): MeetingRecord {
+  return meetingRecord(meetingId, new Date(2021, 10, 1 + week * 7).getTime(), {
+    elapsed: 600000,
+    participants,
+  });
+}
+
+const standups = [
+  session('abc-defg-hij', 0, [
+    participant('Ada', 50),
+    participant('Grace', 50),
+  ]),
+  session('abc-defg-hij', 1, [
+    participant('Ada', 40),
+    participant('Grace', 60),
+  ]),
+  session('abc-defg-hij', 2, [
+    participant('Ada', 80),
+    participant('Grace', 10),
+    participant('Alan', 10),
+  ]),
+];
+const oneOff = session('klm-nopq-rst', 1, [participant('Ada', 10)]);
+const history: MeetingHistory = {};
+[...standups, oneOff].forEach((record) => {
+  history[getMeetingKey(record)] = record;
+});
+
+describe('getSeries', () => {
+  it('groups the sessions of the recurring meetings', () => {
+    const series = getSeries(history, { 'abc-defg-hij': 'Standup' });
+    expect(series).toHaveLength(1);
+    expect(series[0].name).toBe('Standup');
+    expect(series[0].sessions).toEqual(standups);
+  });
+});
+
+describe('compareSessionToSeries', () => {
+  const [series] = getSeries(history, {});
+
+  it('compares everyone to their average in the other sessions', () => {
+    const comparison = compareSessionToSeries(
+      series,
+      getMeetingKey(standups[2]),
+      0.1,
+    );
+    expect(comparison.otherSessionCount).toBe(2);
+    const [grace, alan, ada] = comparison.deltas;
+    expect(grace).toMatchObject({
+      name: 'Grace',
+      share: 0.1,
+      usualShare: 0.55,
+      usualSpokenTime: 55,
+      quieterThanUsual: true,
+    });
+    expect(grace.delta).toBeCloseTo(-0.45);
+    expect(alan).toMatchObject({
+      sessionsAttended: 0,
+      quieterThanUsual: false,
+    });
+    expect(ada).toMatchObject({ usualShare: 0.45, quieterThanUsual: false });
+  });
+
+  it('lists the usual attendees who missed the session', () => {
+    const comparison = compareSessionToSeries(
+      series,
+      getMeetingKey(standups[0]),
+      0.1,
+    );
+    const alan = comparison.deltas.find((d) => d.name === 'Alan');
+    expect(alan).toMatchObject({ present: false, quieterThanUsual: false });
+  });
+});
+
+describe('series names', () => {
+  beforeEach(() => resetChromeFake());
+
+  it('are saved and removed in the synced storage', (done) => {
+    saveSeriesName('abc-defg-hij', 'Standup', () => {
+      getSeriesNames((names) => {
+        expect(names).toEqual({ 'abc-defg-hij': 'Standup' });
+        saveSeriesName('abc-defg-hij', '', () => {
+          getSeriesNames((emptied) => {
+            expect(emptied).toEqual({});
+            done();
+          });
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import config from '../src/config';
+import { AlertRuleType } from '../src/Alerts';
+import { loadSettings, resetSettings } from '../src/Settings';
+import { chromeFake, resetChromeFake } from './chromeFake';
+
+function load(settings: unknown): Promise<void> {
+  chromeFake.storage.sync.set({ settings });
+  return new Promise((resolve) => loadSettings(resolve));
+}
+
+describe('Settings', () => {
+  beforeEach(() => {
+    resetChromeFake();
+  });
+
+  afterEach(async () => {
+    resetSettings();
+    await new Promise<void>((resolve) => loadSettings(resolve));
+  });
+
+  it('raises the settings below their minimum', async () => {
+    await load({
+      SummaryIntervalMs: 0,
+      ReconciliationIntervalMs: 100,
+      MeetingStartedCheckIntervalMs: 2000,
+      PersistIntervalMs: 'often',
+      OverlayMaxRows: 0,
+    });
+    expect(config.SummaryIntervalMs).toBe(250);
+    expect(config.ReconciliationIntervalMs).toBe(250);
+    expect(config.MeetingStartedCheckIntervalMs).toBe(2000);
+    expect(config.PersistIntervalMs).toBe(5000);
+    expect(config.OverlayMaxRows).toBe(2);
+  });
+
+  it('drops the malformed alert rules', async () => {
+    const valid = {
+      type: AlertRuleType.SILENCE,
+      threshold: 10,
+      banner: true,
+      notification: false,
+    };
+    await load({
+      AlertRules: [
+        valid,
+        null,
+        { ...valid, type: 'shouting' },
+        { ...valid, type: AlertRuleType.AGENDA_BUDGET },
+        { ...valid, threshold: '10' },
+        { ...valid, threshold: -1 },
+        { type: AlertRuleType.SILENCE, threshold: 10 },
+      ],
+    });
+    expect(config.AlertRules).toEqual([valid]);
+  });
+});
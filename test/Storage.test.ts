@@ -0,0 +1,198 @@
+import { Storage } from '../src/Storage';
+import config from '../src/config';
+import {
+  ClosedCaptionEventRecord,
+  getMeetingKey,
+  MeetingHistory,
+  MeetingRecord,
+} from '../src/MeetingRecord';
+import { chromeFake, resetChromeFake } from './chromeFake';
+import { flushMutations } from './harness';
+import { captionRecord, meetingRecord } from './records';
+
+function meeting(meetingId: string, startedAt: number): MeetingRecord {
+  return meetingRecord(meetingId, startedAt, { elapsed: 1000 });
+}
+
+function captions(count: number): ClosedCaptionEventRecord[] {
+  return Array.from({ length: count }, (_, i) =>
+    captionRecord('Ada Lovelace', `line ${i}`, 1000 + i, { howLong: 0 }),
+  );
+}
+
+function getLiveMeetings(storage: Storage) {
+  return new Promise<Parameters<Parameters<Storage['getLiveMeetings']>[0]>[0]>(
+    (resolve) => storage.getLiveMeetings(resolve),
+  );
+}
+
+describe('Storage live meetings', () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    resetChromeFake();
+    storage = new Storage();
+  });
+
+  it('keeps the meetings of the tabs apart', async () => {
+    storage.saveLiveMeeting(meeting('abc-defg-hij', 1000));
+    storage.saveLiveMeeting(meeting('klm-nopq-rst', 2000));
+    storage.saveLiveMeeting({
+      ...meeting('abc-defg-hij', 1000),
+      elapsed: 5000,
+    });
+    storage.registerLiveTab('abc-defg-hij|1000', 7);
+    await flushMutations();
+
+    const liveMeetings = await getLiveMeetings(storage);
+    expect(
+      liveMeetings.map((m) => [m.meetingKey, m.tabId, m.record.elapsed]),
+    ).toEqual([
+      ['klm-nopq-rst|2000', null, 1000],
+      ['abc-defg-hij|1000', 7, 5000],
+    ]);
+  });
+
+  it('drops the live meetings of the tabs closed or reused', async () => {
+    storage.saveLiveMeeting(meeting('abc-defg-hij', 1000));
+    storage.saveLiveMeeting(meeting('klm-nopq-rst', 2000));
+    storage.registerLiveTab('abc-defg-hij|1000', 7);
+    storage.registerLiveTab('klm-nopq-rst|2000', 8);
+    await flushMutations();
+
+    // Another meeting in the same tab
+    storage.saveLiveMeeting(meeting('uvw-xyza-bcd', 3000));
+    storage.registerLiveTab('uvw-xyza-bcd|3000', 7);
+    await flushMutations();
+    storage.removeLiveTab(8);
+    await flushMutations();
+
+    const liveMeetings = await getLiveMeetings(storage);
+    expect(liveMeetings.map((m) => [m.meetingKey, m.tabId])).toEqual([
+      ['uvw-xyza-bcd|3000', 7],
+    ]);
+    expect(Object.keys(chromeFake.storage.local._items()).sort()).toEqual([
+      'liveTab|7',
+      'live|uvw-xyza-bcd|3000',
+    ]);
+  });
+
+  it('drops an ended meeting saved after its tab was closed', async () => {
+    const record = {
+      ...meeting('abc-defg-hij', 1000),
+      endedAt: 5000,
+      closedCaptions: captions(3),
+    };
+    storage.registerLiveTab('abc-defg-hij|1000', 7);
+    await flushMutations();
+    storage.removeLiveTab(7);
+    await flushMutations();
+    // The final save of the page being closed
+    storage.saveLiveMeeting(record);
+    await flushMutations();
+    expect(await getLiveMeetings(storage)).toHaveLength(1);
+
+    // What the background page does when the meeting ended
+    await new Promise<void>((resolve) =>
+      storage.saveHistory(record, () => {
+        storage.removeLiveMeeting('abc-defg-hij|1000');
+        resolve();
+      }),
+    );
+    await flushMutations();
+    expect(await getLiveMeetings(storage)).toEqual([]);
+    expect(Object.keys(chromeFake.storage.local._items())).toEqual([
+      storage.historyKey,
+    ]);
+  });
+
+  it('saves the captions changed only, in chunks', async () => {
+    const record = meeting('abc-defg-hij', 1000);
+    storage.saveLiveMeeting({ ...record, closedCaptions: captions(250) });
+    await flushMutations();
+    expect(chromeFake.storage.local._items()['live|abc-defg-hij|1000']).toEqual(
+      record,
+    );
+
+    // The last caption is changed and one is added
+    const set = jest.spyOn(chromeFake.storage.local, 'set');
+    const changed = captions(251);
+    changed[249].what = 'changed';
+    storage.saveLiveMeeting({ ...record, closedCaptions: changed }, 249, 250);
+    await flushMutations();
+    expect(Object.keys(set.mock.calls[0][0])).toEqual([
+      'live|abc-defg-hij|1000',
+      'liveCaptions|abc-defg-hij|1000|1',
+    ]);
+    set.mockRestore();
+
+    const liveMeetings = await getLiveMeetings(storage);
+    expect(liveMeetings[0].record.closedCaptions).toEqual(changed);
+
+    // Cleared, the transcript drops its second chunk
+    storage.saveLiveMeeting({ ...record, closedCaptions: captions(3) }, 0, 251);
+    await flushMutations();
+    expect(
+      Object.keys(chromeFake.storage.local._items()).filter((k) =>
+        k.startsWith('liveCaptions|'),
+      ),
+    ).toEqual(['liveCaptions|abc-defg-hij|1000|0']);
+  });
+});
+
+describe('Storage history', () => {
+  let storage: Storage;
+
+  beforeEach(() => {
+    resetChromeFake();
+    storage = new Storage();
+  });
+
+  it('keeps the meetings of several tabs saved at the same time', async () => {
+    const now = new Date().getTime();
+    const first = meeting('abc-defg-hij', now - 2000);
+    const second = meeting('klm-nopq-rst', now - 1000);
+    await new Promise<void>((resolve) => {
+      storage.saveHistory(first);
+      storage.saveHistory(second);
+      storage.saveHistory({ ...first, endedAt: now }, resolve);
+    });
+
+    const history = await new Promise<MeetingHistory>((resolve) =>
+      storage.getHistory(resolve),
+    );
+    expect(Object.keys(history).sort()).toEqual([
+      getMeetingKey(first),
+      getMeetingKey(second),
+    ]);
+    expect(history[getMeetingKey(first)].endedAt).toBe(now);
+  });
+
+  it('counts the meeting saved once against the quota', async () => {
+    const now = new Date().getTime();
+    const previous = {
+      ...meeting('abc-defg-hij', now - 2000),
+      closedCaptions: captions(50),
+    };
+    const record = {
+      ...meeting('klm-nopq-rst', now - 1000),
+      closedCaptions: captions(50),
+    };
+    const full = {
+      [getMeetingKey(previous)]: previous,
+      [getMeetingKey(record)]: record,
+    };
+    // Room for the history with both transcripts, but not for the record twice
+    const ratio = config.StorageQuotaMaxRatio;
+    config.StorageQuotaMaxRatio =
+      (JSON.stringify(full).length + 100) /
+      chromeFake.storage.local.QUOTA_BYTES;
+    await new Promise<void>((resolve) =>
+      storage.saveHistory(previous, resolve),
+    );
+    await new Promise<void>((resolve) => storage.saveHistory(record, resolve));
+    config.StorageQuotaMaxRatio = ratio;
+
+    expect(chromeFake.storage.local._items()[storage.historyKey]).toEqual(full);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  MeetingRecord,
+  ParticipantEventRecord,
+  ParticipantRecord,
+} from '../src/MeetingRecord';
+import { ParticipantEventEnum } from '../src/ParticipantEvent';
+import {
+  findCaptionIndex,
+  getSpeakingTurns,
+  renderTimelineSVG,
+} from '../src/Timeline';
+import { captionRecord, meetingRecord, participantRecord } from './records';
+
+const STARTED_AT = 1000000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * @param name
+ * @param turns when they started and stopped speaking, in ms since the start
+ */
+function participant(name: string, turns: number[][]): ParticipantRecord {
+  const events: ParticipantEventRecord[] = [];
+  turns.forEach(([start, end]) => {
+    events.push({
+      event: ParticipantEventEnum.START_SPEAKING,
+      datetime: STARTED_AT + start,
+    });
+    if (end !== undefined) {
+      events.push({
+        event: ParticipantEventEnum.STOP_SPEAKING,
+        datetime: STARTED_AT + end,
+      });
+    }
+  });
+  return participantRecord(name, 0, { events });
+}
+
+function meeting(participants: ParticipantRecord[]): MeetingRecord {
+  return meetingRecord('abc-defg-hij', STARTED_AT, {
+    elapsed: 10 * MINUTE_MS,
+    participants,
+  });
+}
+
+describe('getSpeakingTurns', () => {
+  it('joins the turns split by short pauses', () => {
+    const turns = getSpeakingTurns(
+      meeting([
+        participant('Ada', [
+          [0, 3000],
+          [4000, 6000],
+          [10000, 12000],
+        ]),
+      ]),
+    );
+    expect(
+      turns.map((t) => [t.start - STARTED_AT, t.end - STARTED_AT]),
+    ).toEqual([
+      [0, 6000],
+      [10000, 12000],
+    ]);
+  });
+
+  it('flags the overlaps and the monologues', () => {
+    const turns = getSpeakingTurns(
+      meeting([
+        participant('Ada', [[0, 3 * MINUTE_MS]]),
+        participant('Grace', [
+          [MINUTE_MS, MINUTE_MS + 5000],
+          [4 * MINUTE_MS, 5 * MINUTE_MS],
+        ]),
+      ]),
+    );
+    expect(turns.map((t) => [t.lane, t.overlapping, t.monologue])).toEqual([
+      [0, true, true],
+      [1, true, false],
+      [1, false, false],
+    ]);
+  });
+
+  it('ends the turn still going with the meeting', () => {
+    const turns = getSpeakingTurns(meeting([participant('Ada', [[5000]])]));
+    expect(turns).toHaveLength(1);
+    expect(turns[0].end).toBe(STARTED_AT + 10 * MINUTE_MS);
+  });
+});
+
+describe('findCaptionIndex', () => {
+  const captions = [
+    captionRecord('Grace', 'Hi', 1000),
+    captionRecord('Ada', 'Hello', 1500),
+    captionRecord('Grace', 'Bye', 5000),
+  ];
+
+  it("prefers the speaker's caption during the turn", () => {
+    expect(findCaptionIndex(captions, 'Ada', 1000, 2000)).toBe(1);
+    expect(findCaptionIndex(captions, 'Alan', 1000, 2000)).toBe(0);
+    expect(findCaptionIndex(captions, 'Ada', 3000, 4000)).toBe(-1);
+  });
+});
+
+describe('renderTimelineSVG', () => {
+  it('draws a lane per participant and a bar per turn', () => {
+    document.body.innerHTML = renderTimelineSVG(
+      meeting([
+        participant('Ada <Countess>', [[0, 5 * MINUTE_MS]]),
+        participant('Grace', []),
+      ]),
+      260,
+    );
+    const labels = Array.from(document.querySelectorAll('svg > text')).map(
+      (text) => text.textContent,
+    );
+    expect(labels).toEqual(['Ada <Countess>', 'Grace', '0s', '10:00']);
+    const bars = document.querySelectorAll<SVGRectElement>('.timeline-turn');
+    expect(bars).toHaveLength(1);
+    expect(bars[0].dataset.lane).toBe('0');
+    expect(bars[0].getAttribute('x')).toBe('60.0');
+    expect(bars[0].getAttribute('width')).toBe('100.0');
+  });
+});
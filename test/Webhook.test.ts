@@ -0,0 +1,85 @@
+import * as nodeCrypto from 'crypto';
+import { TextEncoder } from 'util';
+import {
+  getWebhookOriginPattern,
+  postToWebhook,
+  signBody,
+  SIGNATURE_HEADER,
+  WebhookEvent,
+  WebhookPayload,
+} from '../src/Webhook';
+
+// jsdom lacks the Web Crypto API the background page uses
+Object.assign(global, { crypto: nodeCrypto['webcrypto'], TextEncoder });
+
+const PAYLOAD = <WebhookPayload>(<unknown>{
+  event: WebhookEvent.END,
+  sentAt: 1636119000000,
+  meeting: { meetingId: 'abc-defg-hij' },
+});
+
+const SETTINGS = {
+  url: 'http://localhost:8080/meetings',
+  secret: 'shh',
+  maxRetries: 2,
+  retryDelayMs: 1,
+};
+
+function respondWith(...statuses: number[]): jest.Mock {
+  const fetchMock = jest.fn();
+  statuses.forEach((status) =>
+    fetchMock.mockImplementationOnce(() =>
+      status ? Promise.resolve({ status }) : Promise.reject('offline'),
+    ),
+  );
+  Object.assign(global, { fetch: fetchMock });
+  return fetchMock;
+}
+
+function post(): Promise<boolean> {
+  return new Promise((resolve) => postToWebhook(SETTINGS, PAYLOAD, resolve));
+}
+
+describe('webhook', () => {
+  it('signs the body with HMAC-SHA256', async () => {
+    const expected = nodeCrypto
+      .createHmac('sha256', 'shh')
+      .update('{"a":1}')
+      .digest('hex');
+    await expect(signBody('{"a":1}', 'shh')).resolves.toBe(
+      `sha256=${expected}`,
+    );
+  });
+
+  it('posts the signed payload as JSON', async () => {
+    const fetchMock = respondWith(200);
+    await expect(post()).resolves.toBe(true);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(SETTINGS.url);
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual(PAYLOAD);
+    expect(init.headers[SIGNATURE_HEADER]).toBe(
+      await signBody(init.body, 'shh'),
+    );
+  });
+
+  it('retries server and network errors, then gives up', async () => {
+    const fetchMock = respondWith(503, 0, 500);
+    await expect(post()).resolves.toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("doesn't retry the payloads the receiver rejects", async () => {
+    const fetchMock = respondWith(400);
+    await expect(post()).resolves.toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks for the host of the URL, whatever the port', () => {
+    expect(getWebhookOriginPattern('http://localhost:8080/meetings')).toBe(
+      'http://localhost/*',
+    );
+    expect(getWebhookOriginPattern('ftp://example.com')).toBeNull();
+    expect(getWebhookOriginPattern('not a url')).toBeNull();
+  });
+});
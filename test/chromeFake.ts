@@ -0,0 +1,157 @@
+/**
+ * In-memory stand-in for the chrome.* APIs the extension uses, so that the
+ * content script can run in jsdom. Values go through JSON like in Chrome, so
+ * records that don't serialize properly show up in the tests.
+ */
+
+type Items = { [key: string]: unknown };
+type ChangeListener = (
+  changes: { [key: string]: chrome.storage.StorageChange },
+  areaName: string,
+) => void;
+
+const changeListeners: ChangeListener[] = [];
+const messageListeners: ((...args: unknown[]) => void)[] = [];
+const connectListeners: ((port: FakePort) => void)[] = [];
+export const sentMessages: unknown[] = [];
+
+export interface FakePort {
+  name: string;
+  received: unknown[]; // what the content script posted, through JSON
+  postMessage: (message: unknown) => void;
+  onDisconnect: { addListener: (listener: () => void) => void };
+  disconnect: () => void; // from the popup's side
+}
+
+function copy<T>(value: T): T {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function createStorageArea(areaName: string, quotaBytes: number) {
+  let items: Items = {};
+
+  const keysOf = (keys: string | string[] | null): string[] => {
+    if (keys === null || keys === undefined) return Object.keys(items);
+    return Array.isArray(keys) ? keys : [keys];
+  };
+
+  const notify = (changes: { [key: string]: chrome.storage.StorageChange }) => {
+    if (Object.keys(changes).length) {
+      changeListeners.forEach((listener) => listener(changes, areaName));
+    }
+  };
+
+  // Chrome calls back asynchronously: we do it in a microtask, which fake timers don't hold.
+  const later = (callback?: () => void) =>
+    Promise.resolve().then(() => callback && callback());
+
+  return {
+    QUOTA_BYTES: quotaBytes,
+    get(keys: string | string[] | null, callback: (items: Items) => void) {
+      const result: Items = {};
+      keysOf(keys).forEach((key) => {
+        if (key in items) result[key] = copy(items[key]);
+      });
+      later(() => callback(result));
+    },
+    set(newItems: Items, callback?: () => void) {
+      const changes = {};
+      Object.keys(newItems).forEach((key) => {
+        changes[key] = { oldValue: items[key], newValue: copy(newItems[key]) };
+        items[key] = copy(newItems[key]);
+      });
+      later(() => {
+        notify(changes);
+        if (callback) callback();
+      });
+    },
+    remove(keys: string | string[], callback?: () => void) {
+      const changes = {};
+      keysOf(keys).forEach((key) => {
+        if (key in items) changes[key] = { oldValue: items[key] };
+        delete items[key];
+      });
+      later(() => {
+        notify(changes);
+        if (callback) callback();
+      });
+    },
+    getBytesInUse(
+      keys: string | string[] | null,
+      callback: (bytesInUse: number) => void,
+    ) {
+      const bytes = keysOf(keys)
+        .filter((key) => key in items)
+        .reduce(
+          (total, key) =>
+            total + key.length + JSON.stringify(items[key]).length,
+          0,
+        );
+      later(() => callback(bytes));
+    },
+    // Test helpers
+    _items: () => items,
+    _clear: () => {
+      items = {};
+    },
+  };
+}
+
+export const chromeFake = {
+  storage: {
+    local: createStorageArea('local', 5242880),
+    sync: createStorageArea('sync', 102400),
+    onChanged: {
+      addListener: (listener: ChangeListener): void => {
+        changeListeners.push(listener);
+      },
+    },
+  },
+  runtime: {
+    lastError: undefined,
+    sendMessage: (message: unknown): void => {
+      sentMessages.push(message);
+    },
+    onMessage: {
+      addListener: (listener: (...args: unknown[]) => void): void => {
+        messageListeners.push(listener);
+      },
+    },
+    onConnect: {
+      addListener: (listener: (port: FakePort) => void): void => {
+        connectListeners.push(listener);
+      },
+    },
+    getManifest: (): { version: string } => ({ version: 'test' }),
+  },
+};
+
+/**
+ * Connects to the content script like the popup does with chrome.tabs.connect.
+ * @param name
+ */
+export function connectPort(name: string): FakePort {
+  const disconnectListeners: (() => void)[] = [];
+  const port: FakePort = {
+    name,
+    received: [],
+    postMessage: (message) => port.received.push(copy(message)),
+    onDisconnect: {
+      addListener: (listener) => disconnectListeners.push(listener),
+    },
+    disconnect: () => disconnectListeners.forEach((listener) => listener()),
+  };
+  connectListeners.forEach((listener) => listener(port));
+  return port;
+}
+
+/**
+ * Empties the storage, forgets the messages sent and the content scripts
+ * listening to connections.
+ */
+export function resetChromeFake(): void {
+  chromeFake.storage.local._clear();
+  chromeFake.storage.sync._clear();
+  sentMessages.splice(0, sentMessages.length);
+  connectListeners.splice(0, connectListeners.length);
+}
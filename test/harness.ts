@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { jsControllerCodes, microphoneStatuses } from '../src/constants';
+import { escapeHtml } from '../src/Utils';
+
+/**
+ * Helpers to replay a Meet call on top of a recorded DOM snapshot. The
+ * tests use jest's fake timers, so that time only passes when told to.
+ */
+
+export interface ScriptStep {
+  at: number; // ms since the script started
+  run: () => void;
+}
+
+export interface CaptionLine {
+  who: string;
+  what: string;
+}
+
+/**
+ * Replaces the document with one of the snapshots of test/fixtures.
+ * @param name the file name, without the .html extension
+ */
+export function loadFixture(name: string): void {
+  document.body.innerHTML = fs.readFileSync(
+    path.join(__dirname, 'fixtures', `${name}.html`),
+    'utf8',
+  );
+}
+
+function getParticipantBox(id: string): HTMLElement {
+  const box = document.querySelector<HTMLElement>(
+    `div[data-participant-id="${id}"]`,
+  );
+  if (!box) throw `No participant box with id '${id}' in the fixture`;
+  return box;
+}
+
+/**
+ * Toggles the microphone class Meet uses to show that someone is silent.
+ */
+export function setSpeaking(id: string, speaking: boolean): void {
+  const microphone = getParticipantBox(id).querySelector(
+    `div[jscontroller="${jsControllerCodes.microphoneBox}"]`,
+  );
+  microphone.classList.toggle(microphoneStatuses.silence, !speaking);
+}
+
+/**
+ * Adds the "You" label Meet displays on the box of the user of the browser.
+ */
+export function labelAsYou(id: string): void {
+  const label = document.createElement('div');
+  label.setAttribute('jscontroller', jsControllerCodes.participantNameBox);
+  label.textContent = 'You';
+  getParticipantBox(id).appendChild(label);
+}
+
+/**
+ * Adds a participant box to the grid, modelled after the first one.
+ */
+export function addParticipant(
+  id: string,
+  name: string,
+  profileImageUrl = '',
+): void {
+  const model = document.querySelector('div[data-participant-id]');
+  const box = <HTMLElement>model.cloneNode(true);
+  box.setAttribute('data-participant-id', id);
+  box.querySelector(
+    `div[jscontroller="${jsControllerCodes.participantNameBox}"]`,
+  ).textContent = name;
+  box
+    .querySelector(`img[jscontroller="${jsControllerCodes.imageProfile}"]`)
+    .setAttribute('src', profileImageUrl);
+  setSilence(box);
+  model.parentElement.appendChild(box);
+}
+
+function setSilence(box: HTMLElement): void {
+  box
+    .querySelector(`div[jscontroller="${jsControllerCodes.microphoneBox}"]`)
+    .classList.add(microphoneStatuses.silence);
+}
+
+export function removeParticipant(id: string): void {
+  getParticipantBox(id).remove();
+}
+
+/**
+ * Displays the given lines in the captions section, the way Meet does: the
+ * speaker's image followed by their name and what they said.
+ */
+export function showCaptions(lines: CaptionLine[]): void {
+  const section = document.querySelector(
+    `div[jscontroller="${jsControllerCodes.closedCaptionsSection}"]`,
+  );
+  section.innerHTML = lines
+    .map(
+      (line) =>
+        `<div><img src=""/><div>${escapeHtml(line.who)}</div><div>${escapeHtml(
+          line.what,
+        )}</div></div>`,
+    )
+    .join('');
+}
+
+/**
+ * Lets the mutation observers and the storage callbacks run: both are
+ * delivered in microtasks, which the fake timers don't hold.
+ */
+export async function flushMutations(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+/**
+ * Moves the clock forward, flushing the mutations between each step.
+ * @param ms
+ * @param stepMs
+ */
+export async function advance(ms: number, stepMs = 100): Promise<void> {
+  await flushMutations();
+  for (let elapsed = 0; elapsed < ms; elapsed += stepMs) {
+    jest.advanceTimersByTime(Math.min(stepMs, ms - elapsed));
+    await flushMutations();
+  }
+}
+
+/**
+ * Runs each step of the script at its time, then lets the time pass until
+ * the given end.
+ * @param steps
+ * @param endAt
+ */
+export async function playScript(
+  steps: ScriptStep[],
+  endAt = 0,
+): Promise<void> {
+  let now = 0;
+  const sorted = [...steps].sort((a, b) => a.at - b.at);
+  for (const step of sorted) {
+    await advance(step.at - now);
+    now = step.at;
+    step.run();
+    await flushMutations();
+  }
+  await advance(Math.max(0, endAt - now));
+}
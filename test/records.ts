@@ -0,0 +1,81 @@
+import {
+  ClosedCaptionEventRecord,
+  MeetingRecord,
+  MEETING_RECORD_SCHEMA_VERSION,
+  ParticipantRecord,
+} from '../src/MeetingRecord';
+
+/**
+ * Builders of the records the storage holds, at the current schema version.
+ * Each test only gives the fields it looks at: when a schema version adds a
+ * field, its default goes here.
+ */
+
+export function participantRecord(
+  name: string,
+  totalSpeakingTime = 0,
+  fields: Partial<ParticipantRecord> = {},
+): ParticipantRecord {
+  return {
+    id: name,
+    name,
+    profileImageUrl: '',
+    totalSpeakingTime,
+    estimatedSpeakingTime: 0,
+    turnCount: 1,
+    longestTurnTime: totalSpeakingTime,
+    longestStrikeTime: totalSpeakingTime,
+    interruptionsMade: 0,
+    interruptionsReceived: 0,
+    lastSpokeAt: null,
+    joinedAt: null,
+    rejoins: [],
+    isLocalUser: false,
+    ...fields,
+  };
+}
+
+/**
+ * @param who
+ * @param what
+ * @param when
+ * @param fields e.g. howLong, 1000ms by default
+ */
+export function captionRecord(
+  who: string,
+  what: string,
+  when = 0,
+  fields: Partial<ClosedCaptionEventRecord> = {},
+): ClosedCaptionEventRecord {
+  const howLong = fields.howLong !== undefined ? fields.howLong : 1000;
+  return {
+    when,
+    whenSpokeLast: when + howLong,
+    who,
+    what,
+    howLong,
+    interjection: false,
+    continuation: false,
+    ...fields,
+  };
+}
+
+export function meetingRecord(
+  meetingId: string,
+  startedAt: number,
+  fields: Partial<MeetingRecord> = {},
+): MeetingRecord {
+  return {
+    schemaVersion: MEETING_RECORD_SCHEMA_VERSION,
+    meetingId,
+    startedAt,
+    endedAt: null,
+    elapsed: 60000,
+    participants: [],
+    closedCaptions: [],
+    agenda: [],
+    pauses: [],
+    segments: [],
+    ...fields,
+  };
+}
@@ -0,0 +1,18 @@
+import { chromeFake } from './chromeFake';
+
+global['chrome'] = <typeof chrome>(<unknown>chromeFake);
+
+// jsdom doesn't lay out the page, so it has no innerText: the text content is close enough.
+Object.defineProperty(HTMLElement.prototype, 'innerText', {
+  get() {
+    return this.textContent;
+  },
+  set(value: string) {
+    this.textContent = value;
+  },
+  configurable: true,
+});
+
+// The extension logs a lot in development builds.
+jest.spyOn(console, 'log').mockImplementation(() => undefined);
+jest.spyOn(console, 'warn').mockImplementation(() => undefined);